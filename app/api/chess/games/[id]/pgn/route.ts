@@ -0,0 +1,31 @@
+import { getChessGame, toPgn } from "@/lib/chess-archive";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const game = await getChessGame(id);
+    if (!game) {
+      return new Response(JSON.stringify({ error: "Không tìm thấy ván đấu" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(toPgn(game), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/x-chess-pgn; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${game.roomId}-${game.round + 1}.pgn"`,
+      },
+    });
+  } catch (err) {
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : "Lỗi không xác định" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import { getChessGame } from "@/lib/chess-archive";
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  try {
+    const game = await getChessGame(id);
+    if (!game) {
+      return new Response(JSON.stringify({ error: "Không tìm thấy ván đấu" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    return new Response(JSON.stringify({ game }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : "Lỗi không xác định" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,20 @@
+import { listChessGames } from "@/lib/chess-archive";
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const roomId = searchParams.get("roomId")?.toUpperCase() || undefined;
+  const limit = Number(searchParams.get("limit") ?? 20) || 20;
+
+  try {
+    const games = await listChessGames({ roomId, limit });
+    return new Response(JSON.stringify({ games }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : "Lỗi không xác định" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
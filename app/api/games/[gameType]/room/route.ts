@@ -0,0 +1,25 @@
+import { handleRoomGet, handleRoomPost } from "@/lib/game-room-handler";
+import { getGameEngine } from "@/lib/engines";
+
+type Context = { params: Promise<{ gameType: string }> };
+
+function unknownGame(gameType: string) {
+  return new Response(JSON.stringify({ error: `Game không tồn tại: ${gameType}` }), {
+    status: 404,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+export async function GET(req: Request, { params }: Context) {
+  const { gameType } = await params;
+  const engine = getGameEngine(gameType);
+  if (!engine) return unknownGame(gameType);
+  return handleRoomGet(engine, req);
+}
+
+export async function POST(req: Request, { params }: Context) {
+  const { gameType } = await params;
+  const engine = getGameEngine(gameType);
+  if (!engine) return unknownGame(gameType);
+  return handleRoomPost(engine, req);
+}
@@ -0,0 +1,28 @@
+import { getLeaderboard, isRatedGameType, RATED_GAME_TYPES } from "@/lib/player-ratings";
+
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const gameType = searchParams.get("gameType") ?? "chess";
+  const page = Number(searchParams.get("page") ?? 1) || 1;
+  const limit = Number(searchParams.get("limit") ?? 20) || 20;
+
+  if (!isRatedGameType(gameType)) {
+    return new Response(
+      JSON.stringify({ error: `gameType phải là một trong: ${RATED_GAME_TYPES.join(", ")}` }),
+      { status: 400, headers: { "Content-Type": "application/json" } }
+    );
+  }
+
+  try {
+    const { total, players } = await getLeaderboard({ gameType, page, limit });
+    return new Response(JSON.stringify({ gameType, page, limit, total, players }), {
+      status: 200,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch (err) {
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : "Lỗi không xác định" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { getGameEngine } from "@/lib/engines";
+import { PlayerAuthError, RoomConflictError } from "@/lib/game-room";
+import { GameRuleError } from "@/lib/game-engine";
+import {
+  cancelMatch,
+  enqueueMatch,
+  getMatchStatus,
+  MatchTicketError,
+} from "@/lib/matchmaking";
+import { json } from "@/lib/game-room-handler";
+
+type MatchmakingBody = {
+  action?: "join" | "status" | "cancel";
+  gameType?: string;
+  playerName?: string;
+  avatar?: string;
+  timeControl?: string;
+  ratingBand?: number;
+  ticketId?: string;
+  secret?: string;
+};
+
+function errorStatus(err: Error) {
+  if (err instanceof MatchTicketError) return 404;
+  if (err instanceof RoomConflictError) return 409;
+  if (err instanceof PlayerAuthError) return 401;
+  if (err instanceof GameRuleError) return 400;
+  return 500;
+}
+
+/**
+ * Hàng đợi tìm trận tự động theo game + thể thức:
+ * - join: vào hàng (ghép ngay nếu có người phù hợp), trả về ticketId + secret
+ * - status: hỏi trạng thái, đã ghép thì trả roomId + token phiên trong phòng
+ * - cancel: rời hàng
+ * Khi ghép được, server publish lên `matchmaking/{ticketId}/matched` cho cả hai client.
+ */
+export async function POST(req: Request) {
+  const body = (await req.json()) as MatchmakingBody;
+  const action = body.action ?? "join";
+
+  const engine = body.gameType ? getGameEngine(body.gameType) : null;
+  if (action !== "cancel" && !engine) {
+    return json({ error: `Game không tồn tại: ${body.gameType ?? ""}` }, 404);
+  }
+
+  try {
+    if (action === "join") {
+      const playerName = body.playerName?.trim();
+      if (!playerName) return json({ error: "playerName is required" }, 400);
+      const result = await enqueueMatch(engine!, {
+        playerName,
+        avatar: body.avatar,
+        timeControl: body.timeControl,
+        ratingBand: body.ratingBand,
+      });
+      return json(result);
+    }
+
+    if (!body.ticketId || !body.secret) {
+      return json({ error: "ticketId và secret is required" }, 400);
+    }
+
+    if (action === "status") {
+      return json(await getMatchStatus(engine!, body.ticketId, body.secret));
+    }
+
+    if (action === "cancel") {
+      const cancelled = await cancelMatch(body.ticketId, body.secret);
+      return json({ cancelled });
+    }
+
+    return json({ error: "Invalid action" }, 400);
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return json({ error: error.message }, errorStatus(error));
+  }
+}
@@ -0,0 +1,65 @@
+import { normalize } from "@/lib/game-room";
+import { getPlayerRecord } from "@/lib/player-ratings";
+import {
+  getFavoriteAvatar,
+  getHeadToHead,
+  getPlayerStats,
+  listPlayerResults,
+} from "@/lib/game-results";
+
+function decodeName(value: string) {
+  try {
+    return decodeURIComponent(value).trim();
+  } catch {
+    return value.trim();
+  }
+}
+
+// Hồ sơ người chơi: Elo, thống kê thắng/thua/hoà, các ván gần đây và thành tích đối đầu
+export async function GET(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const name = decodeName(id);
+  const { searchParams } = new URL(req.url);
+  const limit = Number(searchParams.get("limit") ?? 20) || 20;
+
+  if (!name) {
+    return new Response(JSON.stringify({ error: "Tên người chơi is required" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  try {
+    const [record, stats, recentGames, headToHead, avatar] = await Promise.all([
+      getPlayerRecord(name),
+      getPlayerStats(name),
+      listPlayerResults(name, limit),
+      getHeadToHead(name),
+      getFavoriteAvatar(name),
+    ]);
+
+    if (!record && recentGames.length === 0) {
+      return new Response(JSON.stringify({ error: "Không tìm thấy người chơi" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
+    // Lấy tên đúng như người chơi đã nhập (có hoa thường) thay vì tên trên URL
+    const me = recentGames[0]?.players.find((p) => p.nameKey === normalize(name));
+    const player = { name: record?.name ?? me?.name ?? name, avatar };
+
+    return new Response(
+      JSON.stringify({ player, ratings: record?.ratings ?? {}, stats, recentGames, headToHead }),
+      { status: 200, headers: { "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    return new Response(
+      JSON.stringify({ error: err instanceof Error ? err.message : "Lỗi không xác định" }),
+      { status: 500, headers: { "Content-Type": "application/json" } }
+    );
+  }
+}
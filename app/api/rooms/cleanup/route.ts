@@ -0,0 +1,31 @@
+import { listGameEngines } from "@/lib/engines";
+import { cleanupRooms } from "@/lib/room-cleanup";
+import { json } from "@/lib/game-room-handler";
+
+/**
+ * Job dọn phòng, gọi định kỳ từ cron (Vercel Cron gửi GET kèm
+ * `Authorization: Bearer $CRON_SECRET`). Lưu ván đã kết thúc, xoá phòng trống
+ * và đánh dấu phòng bị bỏ; phòng quá ROOM_TTL_DAYS thì TTL index tự xoá.
+ */
+async function runCleanup(req: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return json({ error: "CRON_SECRET chưa được cấu hình" }, 500);
+  if (req.headers.get("authorization") !== `Bearer ${secret}`) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  try {
+    const reports = await cleanupRooms(listGameEngines());
+    return json({ reports });
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : "Lỗi không xác định" }, 500);
+  }
+}
+
+export async function GET(req: Request) {
+  return runCleanup(req);
+}
+
+export async function POST(req: Request) {
+  return runCleanup(req);
+}
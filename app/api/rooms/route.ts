@@ -0,0 +1,29 @@
+import { getGameEngine, listGameEngines } from "@/lib/engines";
+import { isRoomStatus, ROOM_STATUSES } from "@/lib/game-room";
+import { listRooms } from "@/lib/room-lobby";
+import { json } from "@/lib/game-room-handler";
+
+// Sảnh chờ chung: ?gameType= (bỏ trống = mọi game) &status=waiting|active|finished|abandoned
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const gameType = searchParams.get("gameType");
+  const status = searchParams.get("status");
+  const limit = Number(searchParams.get("limit") ?? 50) || 50;
+
+  const engine = gameType ? getGameEngine(gameType) : null;
+  if (gameType && !engine) return json({ error: `Game không tồn tại: ${gameType}` }, 404);
+  if (status && !isRoomStatus(status)) {
+    return json({ error: `status phải là một trong: ${ROOM_STATUSES.join(", ")}` }, 400);
+  }
+
+  try {
+    const rooms = await listRooms({
+      engines: engine ? [engine] : listGameEngines(),
+      status: status && isRoomStatus(status) ? status : undefined,
+      limit,
+    });
+    return json({ rooms });
+  } catch (err) {
+    return json({ error: err instanceof Error ? err.message : "Lỗi không xác định" }, 500);
+  }
+}
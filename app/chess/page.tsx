@@ -1,8 +1,34 @@
 "use client";
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
-import { Chess } from "chess.js";
-import { MQTTClient, type MQTTStatus } from "@/lib/mqtt-client";
+import { Chess, type Move } from "chess.js";
+import { MQTTClient, subscribeTopic, type MQTTStatus } from "@/lib/mqtt-client";
+import {
+  clearPlayerToken,
+  loadPlayerToken,
+  roomReadHeaders,
+  savePlayerToken,
+} from "@/lib/player-session";
+import { findMatch } from "@/lib/matchmaking-client";
+import {
+  INITIAL_FEN,
+  PROMOTION_PIECES,
+  isPromotionMove,
+  replayMoves,
+  type PromotionPiece,
+} from "@/lib/chess-rules";
+import {
+  DEFAULT_TIME_CONTROL_ID,
+  TIME_CONTROLS,
+  formatClock,
+  remainingMs,
+  type ChessClock,
+} from "@/lib/chess-clock";
+import {
+  analyzeChessGame,
+  type ChessAnalysis,
+  type MoveClassification,
+} from "@/lib/chess-analysis";
 
 type Color = "white" | "black";
 type PieceType = "p" | "r" | "n" | "b" | "q" | "k";
@@ -15,15 +41,123 @@ type Piece = {
 
 type BoardState = (Piece | null)[][];
 
-type Player = { name: string; color: Color; avatar?: string };
+type BotLevel = "easy" | "medium" | "hard";
+
+type Player = { name: string; color: Color; avatar?: string; bot?: BotLevel };
+
+type ActiveRoom = { roomId: string; players: Player[]; updatedAt?: string | null; status?: string };
+
+type RoomVisibility = "public" | "unlisted" | "password";
+
+// Mật khẩu nhập tay hoặc chữ ký trong link mời, dùng khi vào phòng có mật khẩu
+type RoomAccess = { password?: string; invite?: string };
+
+const VISIBILITY_LABELS: Record<RoomVisibility, string> = {
+  public: "Công khai (hiện ở sảnh chờ)",
+  unlisted: "Không công khai (chỉ vào bằng mã)",
+  password: "Có mật khẩu",
+};
+
+const BOT_LEVEL_LABELS: Record<BotLevel, string> = {
+  easy: "Dễ (nghĩ 1 nước, hay đi ẩu)",
+  medium: "Vừa (tính trước 3 nửa nước)",
+  hard: "Khó (tính trước 5 nửa nước)",
+};
+
+type GameResult = "1-0" | "0-1" | "1/2-1/2";
+
+// Action gửi lên /api/chess/room và loại MQTT message tương ứng
+type GameAction =
+  | "resign"
+  | "offer-draw"
+  | "accept-draw"
+  | "decline-draw"
+  | "request-undo"
+  | "accept-undo"
+  | "decline-undo";
+
+type GameActionMessage =
+  | "resign"
+  | "draw-offer"
+  | "draw-accept"
+  | "draw-decline"
+  | "undo-request"
+  | "undo-accept"
+  | "undo-decline";
+
+const GAME_ACTION_MESSAGES: Record<GameAction, GameActionMessage> = {
+  resign: "resign",
+  "offer-draw": "draw-offer",
+  "accept-draw": "draw-accept",
+  "decline-draw": "draw-decline",
+  "request-undo": "undo-request",
+  "accept-undo": "undo-accept",
+  "decline-undo": "undo-decline",
+};
+
+const GAME_ACTION_NOTICES: Record<GameActionMessage, string> = {
+  resign: "đã xin thua.",
+  "draw-offer": "mời hoà.",
+  "draw-accept": "đồng ý hoà.",
+  "draw-decline": "từ chối hoà.",
+  "undo-request": "xin đi lại.",
+  "undo-accept": "đồng ý cho đi lại.",
+  "undo-decline": "từ chối cho đi lại.",
+};
+
+type SeatRelease = "leave" | "kick" | "timeout";
+
+const SEAT_RELEASE_NOTICES: Record<SeatRelease, string> = {
+  leave: "đã rời phòng.",
+  kick: "đã bị chủ phòng mời ra.",
+  timeout: "mất kết nối quá lâu, ghế đã được nhả.",
+};
+
+// Báo server còn kết nối để giữ ghế (server nhả ghế sau 2 phút không có tin)
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+// Ván đang xem lại: ván trực tiếp của phòng hoặc ván đã lưu trong kho
+type ReplaySource = {
+  moves: string[];
+  startFen?: string;
+  gameId?: string;
+  label?: string;
+};
+
+type ArchivedGameSummary = {
+  _id: string;
+  round: number;
+  players: Player[];
+  moves: string[];
+  startFen: string;
+  result: GameResult | "*";
+  termination?: string;
+  endedAt: string;
+};
 
 type RoomState = {
   roomId: string;
   players: Player[];
+  hostName?: string | null;
+  spectators?: { name: string; avatar?: string }[];
   moves?: string[];
+  startFen?: string;
   fen?: string;
   turn?: Color;
   roundIndex?: number;
+  timeControl?: string;
+  clock?: ChessClock | null;
+  result?: GameResult;
+  termination?: string;
+  drawOfferBy?: Color;
+  undoRequest?: { by: Color; plies: number };
+  previousResult?: {
+    result: GameResult;
+    termination: string;
+    roundIndex: number;
+    gameId?: string;
+  };
+  version?: number;
   updatedAt?: string;
 };
 
@@ -31,7 +165,7 @@ type SocketPayload =
   | {
       type: "move";
       fen: string;
-      move: { from: string; to: string };
+      move: string; // UCI, vd "e2e4" hoặc "e7e8n"
       turn: Color;
       room?: RoomState | null;
       playerName: string;
@@ -46,6 +180,19 @@ type SocketPayload =
       type: "reset";
       room: RoomState | null;
       clientId?: string;
+    }
+  | {
+      type: GameActionMessage;
+      room: RoomState | null;
+      playerName: string;
+      clientId?: string;
+    }
+  | {
+      type: "leave";
+      room: RoomState | null;
+      playerName: string;
+      reason: SeatRelease;
+      clientId?: string;
     };
 
 const BOARD_SIZE = 8;
@@ -94,6 +241,122 @@ function describeGame(chess: Chess) {
   return chess.turn() === "w" ? "Tới lượt quân trắng." : "Tới lượt quân đen.";
 }
 
+const TERMINATION_LABELS: Record<string, string> = {
+  checkmate: "Chiếu hết!",
+  stalemate: "Hết nước đi (stalemate).",
+  threefold: "Lặp lại thế cờ 3 lần.",
+  "insufficient-material": "Không đủ quân chiếu hết.",
+  "fifty-move": "Luật 50 nước.",
+  resignation: "Xin thua.",
+  agreement: "Hoà theo thoả thuận.",
+  timeout: "Hết giờ!",
+  abandonment: "Bỏ cuộc.",
+};
+
+// Thế cờ nhập tay: FEN là một dòng có "/", còn lại coi như PGN
+function startPositionPayload(input: string) {
+  const value = input.trim();
+  if (!value) return {};
+  const looksLikeFen = value.includes("/") && !value.includes("[") && !/\d+\./.test(value);
+  return looksLikeFen ? { startFen: value } : { startPgn: value };
+}
+
+// Dựng danh sách thế cờ theo từng nửa nước: positions[0] là thế xuất phát
+function buildReplay(source: ReplaySource): { positions: string[]; history: Move[] } {
+  const startFen = source.startFen || INITIAL_FEN;
+  try {
+    const history = replayMoves(source.moves, startFen).history({ verbose: true });
+    return { positions: [startFen, ...history.map((m) => m.after)], history };
+  } catch {
+    return { positions: [startFen], history: [] };
+  }
+}
+
+const CLASSIFICATION_LABELS: Record<
+  MoveClassification,
+  { symbol: string; label: string; className: string }
+> = {
+  best: { symbol: "★", label: "Nước tốt nhất", className: "text-emerald-400" },
+  good: { symbol: "", label: "Nước ổn", className: "text-zinc-400" },
+  inaccuracy: { symbol: "?!", label: "Thiếu chính xác", className: "text-amber-300" },
+  mistake: { symbol: "?", label: "Sai lầm", className: "text-orange-400" },
+  blunder: { symbol: "??", label: "Sai lầm nghiêm trọng", className: "text-red-400" },
+};
+
+// Biểu đồ điểm theo từng nửa nước: phần sáng là lợi thế của trắng, điểm kẹp trong ±10 tốt
+function EvaluationGraph({
+  analysis,
+  currentPly,
+  onSelectPly,
+}: {
+  analysis: ChessAnalysis;
+  currentPly: number;
+  onSelectPly: (ply: number) => void;
+}) {
+  const { evaluations, moves } = analysis;
+  const width = Math.max(evaluations.length - 1, 1);
+  const toY = (score: number) => 50 - Math.max(-1000, Math.min(1000, score)) / 20;
+  const points = evaluations.map((score, ply) => `${ply},${toY(score)}`).join(" ");
+
+  return (
+    <svg
+      viewBox={`0 0 ${width} 100`}
+      preserveAspectRatio="none"
+      className="w-full h-20 rounded-md bg-zinc-700 cursor-pointer"
+      onClick={(e) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        onSelectPly(Math.round(((e.clientX - rect.left) / rect.width) * width));
+      }}
+    >
+      <polygon points={`0,100 ${points} ${width},100`} className="fill-zinc-200" />
+      <line
+        x1={0}
+        y1={50}
+        x2={width}
+        y2={50}
+        className="stroke-zinc-500"
+        strokeWidth={1}
+        vectorEffect="non-scaling-stroke"
+      />
+      {moves
+        .filter((m) => m.classification === "blunder" || m.classification === "mistake")
+        .map((m) => (
+          <line
+            key={m.ply}
+            x1={m.ply}
+            y1={0}
+            x2={m.ply}
+            y2={100}
+            className={m.classification === "blunder" ? "stroke-red-500" : "stroke-orange-400"}
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      <line
+        x1={currentPly}
+        y1={0}
+        x2={currentPly}
+        y2={100}
+        className="stroke-emerald-400"
+        strokeWidth={2}
+        vectorEffect="non-scaling-stroke"
+      />
+    </svg>
+  );
+}
+
+function describeOutcome(result: GameResult, termination?: string) {
+  const reason = termination ? TERMINATION_LABELS[termination] ?? "" : "";
+  if (result === "1/2-1/2") return `${reason} Ván đấu hoà.`.trim();
+  const winner = result === "1-0" ? "Trắng" : "Đen";
+  return `${reason} ${winner} giành chiến thắng.`.trim();
+}
+
+function describeResult(room: RoomState) {
+  if (!room.result) return null;
+  return describeOutcome(room.result, room.termination);
+}
+
 function coordsToSquare(row: number, col: number) {
   const file = files[col];
   const rank = BOARD_SIZE - row;
@@ -113,6 +376,13 @@ function convertBoard(boardData: ReturnType<Chess["board"]>): BoardState {
   );
 }
 
+// Phòng có mật khẩu mà chưa có link mời: hỏi mật khẩu, null nếu người dùng bỏ qua
+function askRoomPassword(retry: boolean) {
+  return window.prompt(
+    retry ? "Sai mật khẩu, nhập lại:" : "Phòng có mật khẩu. Nhập mật khẩu để vào:"
+  );
+}
+
 export default function ChessPage() {
   const chessRef = useRef(new Chess());
   const [refreshTick, setRefreshTick] = useState(0);
@@ -132,12 +402,20 @@ export default function ChessPage() {
   const [turn, setTurn] = useState<Color>("white");
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [legalTargets, setLegalTargets] = useState<Set<string>>(new Set());
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(
+    null
+  );
   const [roomState, setRoomState] = useState<RoomState | null>(null);
   const [gameStatus, setGameStatus] = useState("Đang chờ tạo phòng...");
+  const [timeControlId, setTimeControlId] = useState(DEFAULT_TIME_CONTROL_ID);
+  const [startPosition, setStartPosition] = useState("");
+  const [botLevel, setBotLevel] = useState<BotLevel>("medium");
+  const [clockNow, setClockNow] = useState(() => Date.now());
   const [isSyncing, setIsSyncing] = useState(false);
   const [copiedRoomId, setCopiedRoomId] = useState(false);
   const [mqttStatus, setMqttStatus] = useState<MQTTStatus>("closed");
-  const [onlineClients, setOnlineClients] = useState<Set<string>>(new Set());
+  // clientId -> tên người dùng, để phân biệt người chơi với người xem
+  const [onlineClients, setOnlineClients] = useState<Map<string, string>>(new Map());
 
   const mqttClientRef = useRef<MQTTClient | null>(null);
   const autoCreateRef = useRef(false);
@@ -148,16 +426,54 @@ export default function ChessPage() {
   );
   const autoJoinRef = useRef(false);
   const [inviteUrl, setInviteUrl] = useState("");
+  const [visibility, setVisibility] = useState<RoomVisibility>("public");
+  const [roomPassword, setRoomPassword] = useState("");
+  // Chữ ký link mời của phòng có mật khẩu, người cầm link vào không cần mật khẩu
+  const [roomInvite, setRoomInvite] = useState("");
   const [copiedInviteUrl, setCopiedInviteUrl] = useState(false);
-  const [activeRooms, setActiveRooms] = useState<
-    { roomId: string; players: Player[]; updatedAt?: string | null }[]
-  >([]);
-
-  const boardState = useMemo(() => convertBoard(chessRef.current.board()), [refreshTick]);
-  const movesHistory = useMemo(
-    () => chessRef.current.history({ verbose: true }).slice().reverse(),
-    [refreshTick]
+  const [activeRooms, setActiveRooms] = useState<ActiveRoom[]>([]);
+  const [archivedGames, setArchivedGames] = useState<ArchivedGameSummary[]>([]);
+  const [archivedReplay, setArchivedReplay] = useState<ReplaySource | null>(null);
+  // null = đang theo dõi thế cờ mới nhất, số = đang xem lại sau nửa nước thứ viewPly
+  const [viewPly, setViewPly] = useState<number | null>(null);
+  // Kết quả phân tích gắn với ván đã phân tích (key), đổi ván thì không hiển thị nữa
+  const [analysis, setAnalysis] = useState<{ key: string; data: ChessAnalysis } | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // Tìm trận tự động: 0 = gặp ai cũng được, còn lại là chênh lệch Elo tối đa
+  const [ratingBand, setRatingBand] = useState(0);
+  const [isMatchmaking, setIsMatchmaking] = useState(false);
+  const matchmakingRef = useRef<AbortController | null>(null);
+
+  const liveMoves = roomState?.moves;
+  const liveStartFen = roomState?.startFen;
+  const replay = useMemo(
+    () => buildReplay(archivedReplay ?? { moves: liveMoves ?? [], startFen: liveStartFen }),
+    [archivedReplay, liveMoves, liveStartFen]
   );
+  const lastPly = replay.positions.length - 1;
+  const currentPly = viewPly === null ? lastPly : Math.min(viewPly, lastPly);
+  const isReplaying = archivedReplay !== null || currentPly < lastPly;
+
+  const liveBoardState = useMemo(() => convertBoard(chessRef.current.board()), [refreshTick]);
+  const boardState = useMemo(
+    () =>
+      isReplaying ? convertBoard(new Chess(replay.positions[currentPly]).board()) : liveBoardState,
+    [isReplaying, replay, currentPly, liveBoardState]
+  );
+  const movesHistory = useMemo(() => replay.history.slice().reverse(), [replay]);
+
+  // Phân tích được ván đã lưu đang xem lại, hoặc ván vừa có kết quả trong phòng
+  const analysisSource: ReplaySource | null = archivedReplay?.gameId
+    ? archivedReplay
+    : !archivedReplay && roomState?.result && currentRoomId
+    ? { moves: liveMoves ?? [], startFen: liveStartFen }
+    : null;
+  const analysisKey = archivedReplay?.gameId
+    ? archivedReplay.gameId
+    : analysisSource
+    ? `${currentRoomId}:${roomState?.roundIndex ?? 0}:${liveMoves?.length ?? 0}`
+    : null;
+  const activeAnalysis = analysis && analysis.key === analysisKey ? analysis.data : null;
 
   const capturedPieces = useMemo(() => {
     const history = chessRef.current.history({ verbose: true });
@@ -180,7 +496,7 @@ export default function ChessPage() {
   }, [refreshTick]);
 
   const checkSquare = useMemo(() => {
-    if (!chessRef.current.inCheck()) return null;
+    if (isReplaying || !chessRef.current.inCheck()) return null;
     const target = chessRef.current.turn() === "w" ? "w" : "b";
     const board = chessRef.current.board();
     for (let r = 0; r < 8; r += 1) {
@@ -192,11 +508,37 @@ export default function ChessPage() {
       }
     }
     return null;
-  }, [refreshTick]);
+  }, [refreshTick, isReplaying]);
+
+  const clock = roomState?.clock ?? null;
+  const isClockRunning = Boolean(clock?.runningSince && !roomState?.result);
+  const myClockMs = clock ? remainingMs(clock, playerColor, turn, clockNow) : null;
+  const opponentColor: Color = playerColor === "white" ? "black" : "white";
+  const opponentClockMs = clock ? remainingMs(clock, opponentColor, turn, clockNow) : null;
+  const resultStatus = roomState ? describeResult(roomState) : null;
+  const flagReportedRef = useRef<number | null>(null);
 
   const canPlay = Boolean(playerName && currentRoomId);
-  // Lock dựa trên số clients MQTT đang online, không phải players trong DB
-  const isLocked = onlineClients.size >= 2;
+  const isSpectator = Boolean(
+    roomState &&
+      !roomState.players?.some((p) => normalize(p.name) === normalize(playerName)) &&
+      roomState.spectators?.some((p) => normalize(p.name) === normalize(playerName))
+  );
+  // Lock dựa trên số người chơi (có ghế trong DB) đang online qua MQTT, không tính người xem;
+  // máy luôn được tính là online
+  const onlineSeatedCount =
+    [...onlineClients.values()].filter((name) =>
+      roomState?.players?.some((p) => !p.bot && normalize(p.name) === normalize(name))
+    ).length + (roomState?.players?.filter((p) => p.bot).length ?? 0);
+  const isLocked = onlineSeatedCount >= 2;
+  const isSeated = Boolean(
+    roomState?.players?.some((p) => normalize(p.name) === normalize(playerName))
+  );
+  // Phòng cũ chưa lưu chủ phòng thì lấy người thật vào đầu tiên, giống server
+  const hostName =
+    roomState?.hostName ?? roomState?.players?.find((p) => !p.bot)?.name ?? null;
+  const isHost = Boolean(hostName && normalize(hostName) === normalize(playerName));
+  const spectatorCount = roomState?.spectators?.length ?? 0;
 
   const opponentName = useMemo(() => {
     if (!roomState?.players?.length) return null;
@@ -265,15 +607,37 @@ export default function ChessPage() {
         if (!options?.auto) alert("Nhập tên người chơi trước khi tạo phòng.");
         return;
       }
+      if (visibility === "password" && !roomPassword) {
+        if (!options?.auto) alert("Nhập mật khẩu cho phòng.");
+        return;
+      }
       const roomId = generateRoomCode();
       setIsSyncing(true);
       try {
         const res = await fetch("/api/chess/room", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "create", playerName, roomId, avatar }),
+          body: JSON.stringify({
+            action: "create",
+            playerName,
+            roomId,
+            avatar,
+            timeControl: timeControlId,
+            visibility,
+            ...(visibility === "password" && { password: roomPassword }),
+            ...startPositionPayload(startPosition),
+          }),
         });
-        const data: { roomId: string; room?: RoomState | null } = await res.json();
+        const data: {
+          roomId: string;
+          room?: RoomState | null;
+          token?: string;
+          invite?: string;
+          error?: string;
+        } = await res.json();
+        if (!res.ok) throw new Error(data.error || "Không tạo được phòng");
+        if (data.token) savePlayerToken("chess", data.roomId, data.token);
+        setRoomInvite(data.invite ?? "");
         setCurrentRoomId(data.roomId);
         setInputRoomId(data.roomId);
         hydrateFromRoom(data.room ?? null);
@@ -281,7 +645,7 @@ export default function ChessPage() {
       } catch (err) {
         if (!options?.auto) {
           console.error(err);
-          alert("Không tạo được phòng, thử lại nhé.");
+          alert(err instanceof Error ? err.message : "Không tạo được phòng, thử lại nhé.");
         }
         chessRef.current.reset();
         refreshFromChess();
@@ -289,7 +653,7 @@ export default function ChessPage() {
         setIsSyncing(false);
       }
     },
-    [playerName, avatar]
+    [playerName, avatar, timeControlId, startPosition, visibility, roomPassword]
   );
 
   useEffect(() => {
@@ -312,8 +676,10 @@ export default function ChessPage() {
     if (!roomIdFromUrl) return;
     autoJoinRef.current = true;
     setInputRoomId(roomIdFromUrl.toUpperCase());
-    // auto join, không cần người dùng bấm nút
-    handleJoinRoom(roomIdFromUrl.toUpperCase());
+    // auto join, không cần người dùng bấm nút; link mời phòng có mật khẩu kèm ?invite=
+    handleJoinRoom(roomIdFromUrl.toUpperCase(), {
+      invite: url.searchParams.get("invite") ?? undefined,
+    });
   }, []);
 
   // MQTT connection
@@ -326,7 +692,7 @@ export default function ChessPage() {
         setMqttStatus(status);
         // Khi connected, publish presence và thêm mình vào online clients
         if (status === "connected" && mqttClientRef.current) {
-          setOnlineClients((prev) => new Set([...prev, clientIdRef.current]));
+          setOnlineClients((prev) => new Map(prev).set(clientIdRef.current, playerName));
           // Publish presence để các clients khác biết
           mqttClientRef.current.publish("presence", {
             playerName,
@@ -336,7 +702,7 @@ export default function ChessPage() {
         } else if (status === "closed" || status === "error") {
           // Remove self khi disconnect
           setOnlineClients((prev) => {
-            const next = new Set(prev);
+            const next = new Map(prev);
             next.delete(clientIdRef.current);
             return next;
           });
@@ -359,7 +725,7 @@ export default function ChessPage() {
         });
         mqttClientRef.current.disconnect();
       }
-      setOnlineClients(new Set());
+      setOnlineClients(new Map());
     };
   }, [currentRoomId, playerName]);
 
@@ -373,7 +739,9 @@ export default function ChessPage() {
       if (mqttStatus === "connected") return;
       
       try {
-        const res = await fetch(`/api/chess/room?roomId=${currentRoomId}`);
+        const res = await fetch(`/api/chess/room?roomId=${currentRoomId}`, {
+          headers: roomReadHeaders("chess", currentRoomId, roomInvite),
+        });
         if (!res.ok) return;
         const data: { room?: RoomState | null } = await res.json();
         if (cancelled || !data.room) return;
@@ -394,42 +762,142 @@ export default function ChessPage() {
       cancelled = true;
       window.clearInterval(id);
     };
-  }, [currentRoomId, mqttStatus]);
+  }, [currentRoomId, mqttStatus, roomInvite]);
 
-  // Lấy danh sách phòng đang có người chơi (poll ít hơn, không cần real-time)
+  // Phòng đang có người chơi: tải một lần rồi cập nhật theo tin sảnh chờ qua MQTT
   useEffect(() => {
     let cancelled = false;
-
-    const fetchRooms = async () => {
-      try {
-        const res = await fetch("/api/chess/rooms");
-        if (!res.ok) return;
-        const data: {
-          rooms?: { roomId: string; players: Player[]; updatedAt?: string | null }[];
-        } = await res.json();
-        if (cancelled || !data.rooms) return;
-        setActiveRooms(data.rooms);
-      } catch {
+    fetch("/api/chess/rooms")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { rooms?: ActiveRoom[] } | null) => {
+        if (!cancelled && data?.rooms) setActiveRooms(data.rooms);
+      })
+      .catch(() => {
         // ignore
-      }
+      });
+
+    const unsubscribe = subscribeTopic("lobby/chess/room", (message) => {
+      const room = message.room as ActiveRoom | undefined;
+      if (!room?.roomId || cancelled) return;
+      setActiveRooms((prev) => {
+        const others = prev.filter((r) => r.roomId !== room.roomId);
+        const live = room.status === "waiting" || room.status === "active";
+        return live ? [room, ...others] : others;
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
     };
+  }, []);
 
-    fetchRooms();
-    // Poll mỗi 30s thay vì 5s (không cần real-time cho rooms list)
-    const id = window.setInterval(fetchRooms, 30000);
+  // Heartbeat giữ ghế (người xem gửi theo tên để còn được tính là đang xem); server cũng
+  // nhả ghế của đối thủ đã mất kết nối và báo qua MQTT
+  useEffect(() => {
+    if (!currentRoomId || !playerName) return;
+    const roomId = currentRoomId;
+    let cancelled = false;
+    const beat = () => {
+      const token = loadPlayerToken("chess", roomId);
+      fetch("/api/chess/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "heartbeat", roomId, ...(token ? { token } : { playerName }) }),
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: { room?: RoomState | null } | null) => {
+          const spectators = data?.room?.spectators;
+          if (cancelled || !spectators) return;
+          // Chỉ lấy danh sách người xem (đã bỏ người rời đi), ván vẫn đồng bộ qua MQTT / polling
+          setRoomState((prev) => (prev?.roomId === roomId ? { ...prev, spectators } : prev));
+        })
+        .catch(() => {
+          // ignore, lần sau gửi lại
+        });
+    };
+    beat();
+    const id = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
     return () => {
       cancelled = true;
       window.clearInterval(id);
     };
-  }, []);
+  }, [currentRoomId, playerName]);
+
+  // Đồng hồ: render lại liên tục khi đang chạy, thời gian thật lấy từ room.clock
+  useEffect(() => {
+    if (!isClockRunning) return;
+    const id = window.setInterval(() => setClockNow(Date.now()), 100);
+    return () => window.clearInterval(id);
+  }, [isClockRunning]);
+
+  // Khi bên đang tới lượt hết giờ thì báo server xử thua (mỗi version chỉ báo một lần)
+  useEffect(() => {
+    if (!isClockRunning || !clock || !roomState || !currentRoomId) return;
+    if (remainingMs(clock, turn, turn, clockNow) > 0) return;
+    const version = roomState.version ?? 0;
+    if (flagReportedRef.current === version) return;
+    flagReportedRef.current = version;
+
+    fetch("/api/chess/room", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ action: "flag", roomId: currentRoomId }),
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { room?: RoomState | null } | null) => {
+        if (!data?.room) return;
+        syncRoomState(data.room);
+        emitMQTTMessage("room", { room: data.room });
+      })
+      .catch(() => {
+        // ignore, client khác sẽ báo
+      });
+  }, [clockNow, isClockRunning, clock, roomState, currentRoomId, turn]);
+
+  // Danh sách ván đã lưu của phòng, tải lại khi sang ván mới
+  useEffect(() => {
+    if (!currentRoomId) return;
+    let cancelled = false;
+    fetch(`/api/chess/games?roomId=${currentRoomId}&limit=10`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { games?: ArchivedGameSummary[] } | null) => {
+        if (!cancelled && data?.games) setArchivedGames(data.games);
+      })
+      .catch(() => {
+        // ignore
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [currentRoomId, roomState?.roundIndex]);
+
+  // Phím mũi tên để tua lại ván (bỏ qua khi đang gõ trong ô nhập)
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.tagName === "SELECT")) {
+        return;
+      }
+      if (event.key === "ArrowLeft") goToPly(currentPly - 1);
+      else if (event.key === "ArrowRight") goToPly(currentPly + 1);
+      else if (event.key === "Home") goToPly(0);
+      else if (event.key === "End") goToPly(lastPly);
+      else return;
+      event.preventDefault();
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
   // Tạo link mời (share URL) khi có roomId
   useEffect(() => {
     if (typeof window === "undefined" || !currentRoomId) return;
     const url = new URL(window.location.href);
     url.searchParams.set("roomId", currentRoomId);
+    if (roomInvite) url.searchParams.set("invite", roomInvite);
+    else url.searchParams.delete("invite");
     setInviteUrl(url.toString());
-  }, [currentRoomId, mqttStatus]);
+  }, [currentRoomId, mqttStatus, roomInvite]);
 
   function emitMQTTMessage(type: string, payload: Record<string, unknown>) {
     if (!mqttClientRef.current || mqttStatus !== "connected") return;
@@ -448,10 +916,12 @@ export default function ChessPage() {
     if (message.type === "presence" && message.clientId) {
       const action = message.action as string;
       if (action === "connect") {
-        setOnlineClients((prev) => new Set([...prev, message.clientId as string]));
+        setOnlineClients((prev) =>
+          new Map(prev).set(message.clientId as string, String(message.playerName ?? ""))
+        );
       } else if (action === "disconnect") {
         setOnlineClients((prev) => {
-          const next = new Set(prev);
+          const next = new Map(prev);
           next.delete(message.clientId as string);
           return next;
         });
@@ -462,7 +932,7 @@ export default function ChessPage() {
     // Handle disconnect từ last will (khi client disconnect đột ngột)
     if (message.type === "disconnect" && message.clientId) {
       setOnlineClients((prev) => {
-        const next = new Set(prev);
+        const next = new Map(prev);
         next.delete(message.clientId as string);
         return next;
       });
@@ -490,6 +960,31 @@ export default function ChessPage() {
     if (typedMessage.type === "reset" && "room" in typedMessage) {
       hydrateFromRoom(typedMessage.room ?? null);
     }
+
+    // Server báo có người rời phòng / bị mời ra / bị nhả ghế; ván hiện tại đã được kết thúc
+    if (typedMessage.type === "leave" && "reason" in typedMessage) {
+      if (normalize(typedMessage.playerName) === normalize(playerName)) {
+        // Tự rời thì handleLeaveRoom đã xử lý
+        if (typedMessage.reason === "leave") return;
+        clearPlayerToken("chess", typedMessage.room?.roomId ?? currentRoomId);
+        hydrateFromRoom(typedMessage.room ?? null);
+        setGameStatus(
+          typedMessage.reason === "kick"
+            ? "Bạn đã bị chủ phòng mời ra. Hãy tạo hoặc vào phòng khác."
+            : "Bạn đã mất ghế do mất kết nối quá lâu. Hãy vào lại phòng."
+        );
+        return;
+      }
+      hydrateFromRoom(typedMessage.room ?? null);
+      setGameStatus(`${typedMessage.playerName} ${SEAT_RELEASE_NOTICES[typedMessage.reason]}`);
+      return;
+    }
+
+    if (typedMessage.type in GAME_ACTION_NOTICES && "playerName" in typedMessage) {
+      const type = typedMessage.type as GameActionMessage;
+      applyRoomUpdate(typedMessage.room ?? null);
+      setGameStatus(`${typedMessage.playerName} ${GAME_ACTION_NOTICES[type]}`);
+    }
   }
 
   function refreshFromChess(status?: string) {
@@ -525,7 +1020,13 @@ export default function ChessPage() {
     refreshFromChess();
   }
 
-  async function handleJoinRoom(explicitRoomId?: string) {
+  // Bàn cờ trên server khác bàn đang hiển thị (vừa đi lại, máy vừa đáp) thì dựng lại từ room
+  function applyRoomUpdate(room: RoomState | null) {
+    if (room?.fen && room.fen !== chessRef.current.fen()) hydrateFromRoom(room);
+    else syncRoomState(room);
+  }
+
+  async function handleJoinRoom(explicitRoomId?: string, access: RoomAccess = {}) {
     if (!playerName) {
       alert("Nhập tên người chơi trước khi vào phòng.");
       return;
@@ -542,13 +1043,35 @@ export default function ChessPage() {
       const res = await fetch("/api/chess/room", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "join", playerName, roomId, avatar }),
+        body: JSON.stringify({
+          action: "join",
+          playerName,
+          roomId,
+          avatar,
+          token: loadPlayerToken("chess", roomId),
+          ...access,
+        }),
       });
+      if (res.status === 403) {
+        // Phòng đủ người: cho phép vào xem thay vì chặn hẳn
+        if (window.confirm("Phòng đã đủ người chơi. Vào xem ván đấu?")) {
+          await handleSpectateRoom(roomId, access);
+        }
+        return;
+      }
       if (!res.ok) {
         const payload = await res.json().catch(() => ({}));
+        if (payload.passwordRequired) {
+          const password = askRoomPassword(Boolean(access.password));
+          if (password) await handleJoinRoom(roomId, { password });
+          return;
+        }
         throw new Error(payload.error || "Không vào được phòng");
       }
-      const data: { roomId: string; room?: RoomState | null } = await res.json();
+      const data: { roomId: string; room?: RoomState | null; token?: string; invite?: string } =
+        await res.json();
+      if (data.token) savePlayerToken("chess", data.roomId, data.token);
+      setRoomInvite(data.invite ?? "");
       setCurrentRoomId(data.roomId);
       setInputRoomId(data.roomId);
       hydrateFromRoom(data.room ?? null);
@@ -560,6 +1083,46 @@ export default function ChessPage() {
     }
   }
 
+  async function handleSpectateRoom(explicitRoomId?: string, access: RoomAccess = {}) {
+    if (!playerName) {
+      alert("Nhập tên trước khi vào xem.");
+      return;
+    }
+    const roomId = (explicitRoomId ?? inputRoomId).trim().toUpperCase();
+    if (!roomId) {
+      alert("Nhập mã phòng để vào xem.");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/chess/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "spectate", playerName, roomId, avatar, ...access }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        if (payload.passwordRequired) {
+          const password = askRoomPassword(Boolean(access.password));
+          if (password) await handleSpectateRoom(roomId, { password });
+          return;
+        }
+        throw new Error(payload.error || "Không vào xem được phòng");
+      }
+      const data: { roomId: string; room?: RoomState | null; invite?: string } = await res.json();
+      setRoomInvite(data.invite ?? "");
+      setCurrentRoomId(data.roomId);
+      setInputRoomId(data.roomId);
+      hydrateFromRoom(data.room ?? null);
+      emitMQTTMessage("room", { room: data.room ?? null });
+    } catch (err) {
+      alert(err instanceof Error && err.message ? err.message : "Không vào xem được phòng, thử lại sau.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
   function getDisplaySquare(row: number, col: number) {
     const actualRow = orientation === "white" ? row : 7 - row;
     const actualCol = orientation === "white" ? col : 7 - col;
@@ -568,12 +1131,72 @@ export default function ChessPage() {
     return { square, piece };
   }
 
+  function goToPly(ply: number) {
+    const next = Math.max(0, Math.min(ply, lastPly));
+    // Tua tới nước cuối của ván trực tiếp thì quay lại theo dõi ván đang chơi
+    setViewPly(!archivedReplay && next === lastPly ? null : next);
+    setSelectedSquare(null);
+    setLegalTargets(new Set());
+  }
+
+  async function openArchivedGame(gameId: string) {
+    try {
+      const res = await fetch(`/api/chess/games/${gameId}`);
+      if (!res.ok) throw new Error();
+      const data: { game?: ArchivedGameSummary } = await res.json();
+      if (!data.game) throw new Error();
+      setArchivedReplay({
+        moves: data.game.moves,
+        startFen: data.game.startFen,
+        gameId,
+        label: `Ván ${data.game.round + 1}: ${data.game.players.map((p) => p.name).join(" vs ")}`,
+      });
+      setViewPly(0);
+    } catch {
+      alert("Không tải được ván đã lưu.");
+    }
+  }
+
+  async function handleAnalyze() {
+    if (!analysisSource || !analysisKey) return;
+    setIsAnalyzing(true);
+    try {
+      // Chấm điểm ngay trên trình duyệt, server không phải nghĩ hộ
+      const data = await analyzeChessGame(analysisSource.moves, analysisSource.startFen);
+      setAnalysis({ key: analysisKey, data });
+    } catch (err) {
+      alert(err instanceof Error && err.message ? err.message : "Không phân tích được ván đấu.");
+    } finally {
+      setIsAnalyzing(false);
+    }
+  }
+
+  function exitReplay() {
+    setArchivedReplay(null);
+    setViewPly(null);
+  }
+
   function handleSquareClick(row: number, col: number) {
     if (!canPlay) {
       alert("Hãy tạo hoặc vào phòng trước khi chơi.");
       return;
     }
 
+    if (isReplaying) {
+      setGameStatus("Đang xem lại, về nước mới nhất để tiếp tục chơi.");
+      return;
+    }
+
+    if (isSpectator) {
+      setGameStatus("Bạn đang xem, không thể đi quân.");
+      return;
+    }
+
+    if (roomState?.result) {
+      setGameStatus("Ván đấu đã kết thúc.");
+      return;
+    }
+
     const { square, piece } = getDisplaySquare(row, col);
 
     if (selectedSquare && square === selectedSquare) {
@@ -583,6 +1206,11 @@ export default function ChessPage() {
     }
 
     if (selectedSquare && legalTargets.has(square)) {
+      if (isPromotionMove(chessRef.current, selectedSquare, square)) {
+        // Chờ người chơi chọn quân phong cấp rồi mới gửi nước đi
+        setPendingPromotion({ from: selectedSquare, to: square });
+        return;
+      }
       executeMove(selectedSquare, square);
       return;
     }
@@ -613,8 +1241,26 @@ export default function ChessPage() {
     setLegalTargets(new Set(moves.map((m) => m.to)));
   }
 
-  async function executeMove(from: string, to: string) {
-    const move = chessRef.current.move({ from, to, promotion: "q" });
+  function handlePromotionChoice(piece: PromotionPiece) {
+    if (!pendingPromotion) return;
+    const { from, to } = pendingPromotion;
+    setPendingPromotion(null);
+    executeMove(from, to, piece);
+  }
+
+  function cancelPromotion() {
+    setPendingPromotion(null);
+    setSelectedSquare(null);
+    setLegalTargets(new Set());
+  }
+
+  async function executeMove(from: string, to: string, promotion?: PromotionPiece) {
+    let move;
+    try {
+      move = chessRef.current.move({ from, to, promotion });
+    } catch {
+      move = null;
+    }
     if (!move) {
       setSelectedSquare(null);
       setLegalTargets(new Set());
@@ -627,13 +1273,12 @@ export default function ChessPage() {
 
     if (!currentRoomId) return;
 
+    const uci = `${from}${to}${promotion ?? ""}`;
     const payload = {
       action: "move",
       roomId: currentRoomId,
-      move: `${from}${to}`,
-      fen: chessRef.current.fen(),
-      turn: chessRef.current.turn() === "w" ? "white" : "black",
-      playerName,
+      move: uci,
+      token: loadPlayerToken("chess", currentRoomId),
     };
 
     try {
@@ -643,13 +1288,21 @@ export default function ChessPage() {
         body: JSON.stringify(payload),
       });
       const data = await res.json();
-      if (data?.room) syncRoomState(data.room);
-      console.log("Publishing move via MQTT:", { from, to, fen: payload.fen });
+      if (!res.ok) {
+        // Server từ chối nước đi: lấy lại trạng thái phòng để bàn cờ khớp với server
+        await reloadRoom();
+        setGameStatus(data?.error || "Nước đi không hợp lệ");
+        return;
+      }
+      const room: RoomState | null = data?.room ?? null;
+      applyRoomUpdate(room);
+      const fen = room?.fen ?? chessRef.current.fen();
+      console.log("Publishing move via MQTT:", { move: uci, fen });
       emitMQTTMessage("move", {
-        fen: payload.fen,
-        move: { from, to },
-        turn: payload.turn as Color,
-        room: data?.room ?? null,
+        fen,
+        move: uci,
+        turn: room?.turn ?? (chessRef.current.turn() === "w" ? "white" : "black"),
+        room,
         playerName,
       });
     } catch {
@@ -657,6 +1310,203 @@ export default function ChessPage() {
     }
   }
 
+  async function reloadRoom() {
+    if (!currentRoomId) return;
+    try {
+      const res = await fetch(`/api/chess/room?roomId=${currentRoomId}`, {
+        headers: roomReadHeaders("chess", currentRoomId, roomInvite),
+      });
+      if (!res.ok) return;
+      const data: { room?: RoomState | null } = await res.json();
+      if (data.room) hydrateFromRoom(data.room);
+    } catch {
+      // ignore
+    }
+  }
+
+  async function sendGameAction(action: GameAction) {
+    if (!currentRoomId) return;
+    if (action === "resign" && !window.confirm("Bạn chắc chắn muốn xin thua?")) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/chess/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          roomId: currentRoomId,
+          token: loadPlayerToken("chess", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn cờ vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không thực hiện được, thử lại sau.");
+        return;
+      }
+      applyRoomUpdate(data.room ?? null);
+      emitMQTTMessage(GAME_ACTION_MESSAGES[action], { room: data.room ?? null, playerName });
+    } catch {
+      // ignore
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  // Rời phòng: nhả ghế cho người khác (ván dang dở bị xử thua) hoặc thôi xem, rồi tạo phòng mới cho mình
+  async function handleLeaveRoom() {
+    if (!currentRoomId) return;
+    const inProgress = !roomState?.result && (roomState?.moves?.length ?? 0) > 0;
+    const confirmLeave = window.confirm(
+      inProgress && isSeated ? "Rời phòng khi ván chưa xong sẽ bị xử thua. Vẫn rời?" : "Rời phòng này?"
+    );
+    if (!confirmLeave) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/chess/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "leave",
+          roomId: currentRoomId,
+          // Người xem không có token, server nhận theo tên
+          playerName,
+          token: loadPlayerToken("chess", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn cờ vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không rời được phòng, thử lại sau.");
+        return;
+      }
+      clearPlayerToken("chess", currentRoomId);
+    } catch {
+      return;
+    } finally {
+      setIsSyncing(false);
+    }
+    await handleCreateRoom();
+  }
+
+  // Chủ phòng mời người chơi khác (hoặc máy) ra để nhả ghế
+  async function handleKickPlayer(target: string) {
+    if (!currentRoomId) return;
+    if (!window.confirm(`Mời ${target} ra khỏi phòng?`)) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/chess/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "kick",
+          roomId: currentRoomId,
+          target,
+          token: loadPlayerToken("chess", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn cờ vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không mời ra được, thử lại sau.");
+        return;
+      }
+      hydrateFromRoom(data.room ?? null);
+      setGameStatus(`${target} ${SEAT_RELEASE_NOTICES.kick}`);
+    } catch {
+      // ignore
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  // Vào hàng đợi tìm đối thủ cùng thể thức, ghép xong thì vào thẳng phòng server vừa tạo
+  async function handleFindMatch() {
+    if (!playerName) {
+      alert("Nhập tên người chơi trước khi tìm trận.");
+      return;
+    }
+    const controller = new AbortController();
+    matchmakingRef.current = controller;
+    setIsMatchmaking(true);
+    try {
+      const match = await findMatch({
+        gameType: "chess",
+        playerName,
+        avatar,
+        timeControl: timeControlId,
+        ...(ratingBand > 0 && { ratingBand }),
+        signal: controller.signal,
+      });
+      if (match.token) savePlayerToken("chess", match.roomId, match.token);
+      setRoomInvite("");
+      const res = await fetch(`/api/chess/room?roomId=${match.roomId}`, {
+        headers: roomReadHeaders("chess", match.roomId),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data?.error || "Không vào được phòng vừa ghép");
+      setCurrentRoomId(match.roomId);
+      setInputRoomId(match.roomId);
+      hydrateFromRoom(data.room ?? null);
+    } catch (err) {
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      alert(err instanceof Error ? err.message : "Không tìm được trận, thử lại sau.");
+    } finally {
+      matchmakingRef.current = null;
+      setIsMatchmaking(false);
+    }
+  }
+
+  // Xếp máy vào ghế còn trống, server tự đi thay máy sau mỗi nước của mình
+  async function handleAddBot() {
+    if (!currentRoomId) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/chess/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "add-bot",
+          roomId: currentRoomId,
+          level: botLevel,
+          token: loadPlayerToken("chess", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn cờ vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không thêm được máy, thử lại sau.");
+        return;
+      }
+      applyRoomUpdate(data.room ?? null);
+      emitMQTTMessage("room", { room: data.room ?? null });
+    } catch {
+      // ignore
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
   async function handleEndGame() {
     if (!currentRoomId) {
       chessRef.current.reset();
@@ -674,9 +1524,22 @@ export default function ChessPage() {
       const res = await fetch("/api/chess/room", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "finish", roomId: currentRoomId }),
+        body: JSON.stringify({
+          action: "finish",
+          roomId: currentRoomId,
+          token: loadPlayerToken("chess", currentRoomId),
+        }),
       });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn cờ vừa thay đổi, hãy thử lại.");
+        return;
+      }
       const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không kết thúc được ván, thử lại sau.");
+        return;
+      }
       hydrateFromRoom(data?.room ?? null);
       emitMQTTMessage("reset", { room: data?.room ?? null });
     } catch {
@@ -765,6 +1628,55 @@ export default function ChessPage() {
                 </div>
               </div>
             </div>
+            <div className="space-y-2">
+              <label className="text-xs text-zinc-400">Thời gian (áp dụng khi tạo phòng / tìm trận)</label>
+              <select
+                value={timeControlId}
+                onChange={(e) => setTimeControlId(e.target.value)}
+                className="w-full rounded-md bg-zinc-950 border border-zinc-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {TIME_CONTROLS.map((tc) => (
+                  <option key={tc.id} value={tc.id}>
+                    {tc.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-xs text-zinc-400">Chế độ phòng (áp dụng khi tạo phòng)</label>
+              <select
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as RoomVisibility)}
+                className="w-full rounded-md bg-zinc-950 border border-zinc-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {(Object.keys(VISIBILITY_LABELS) as RoomVisibility[]).map((v) => (
+                  <option key={v} value={v}>
+                    {VISIBILITY_LABELS[v]}
+                  </option>
+                ))}
+              </select>
+              {visibility === "password" && (
+                <input
+                  type="password"
+                  value={roomPassword}
+                  onChange={(e) => setRoomPassword(e.target.value)}
+                  placeholder="Mật khẩu phòng (4-64 ký tự)"
+                  className="w-full rounded-md bg-zinc-950 border border-zinc-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+              )}
+            </div>
+            <div className="space-y-2 col-span-2">
+              <label className="text-xs text-zinc-400">
+                Thế cờ bắt đầu (FEN hoặc PGN, để trống = khai cuộc chuẩn)
+              </label>
+              <textarea
+                value={startPosition}
+                onChange={(e) => setStartPosition(e.target.value)}
+                rows={2}
+                placeholder="VD: 8/8/8/4k3/8/8/4P3/4K3 w - - 0 1"
+                className="w-full rounded-md bg-zinc-950 border border-zinc-700 px-3 py-2 text-xs font-mono outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </div>
             <div className="space-y-2">
               <label className="text-xs text-zinc-400">Mã phòng (auto tạo)</label>
               <input
@@ -797,17 +1709,163 @@ export default function ChessPage() {
               >
                 Vào phòng bằng mã
               </button>
+              <button
+                onClick={() => handleSpectateRoom()}
+                disabled={isSyncing}
+                className={`rounded-md border border-zinc-700 px-3 text-sm font-medium py-2 transition-colors ${
+                  isSyncing ? "text-zinc-500 cursor-not-allowed" : "hover:bg-zinc-800"
+                }`}
+              >
+                Vào xem
+              </button>
             </div>
 
-            <button
-              onClick={handleEndGame}
-              disabled={isSyncing}
-              className={`col-span-2 rounded-md text-sm font-medium py-2 border transition-colors ${
-                isSyncing ? "border-zinc-800 text-zinc-500 cursor-wait" : "border-red-500 text-red-400 hover:bg-red-500/10"
-              }`}
-            >
-              Kết thúc ván / đổi màu
-            </button>
+            <div className="col-span-2 flex items-center gap-2 text-xs">
+              <span className="text-zinc-400">Tìm đối thủ:</span>
+              <select
+                value={ratingBand}
+                onChange={(e) => setRatingBand(Number(e.target.value))}
+                disabled={isMatchmaking}
+                className="flex-1 rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                <option value={0}>Elo bất kỳ</option>
+                <option value={100}>Chênh tối đa ±100 Elo</option>
+                <option value={200}>Chênh tối đa ±200 Elo</option>
+                <option value={400}>Chênh tối đa ±400 Elo</option>
+              </select>
+              {isMatchmaking ? (
+                <button
+                  onClick={() => matchmakingRef.current?.abort()}
+                  className="rounded-md border border-zinc-700 px-3 py-1.5 font-medium text-zinc-300 hover:bg-zinc-800"
+                >
+                  Đang tìm... Huỷ
+                </button>
+              ) : (
+                <button
+                  onClick={handleFindMatch}
+                  disabled={isSyncing}
+                  className="rounded-md border border-emerald-500 px-3 py-1.5 font-medium text-emerald-400 hover:bg-emerald-500/10 disabled:opacity-50"
+                >
+                  Tìm trận {timeControlId}
+                </button>
+              )}
+            </div>
+
+            {isSpectator && (
+              <div className="col-span-2 rounded-md border border-sky-500/40 bg-sky-500/10 px-3 py-2 text-xs text-sky-200">
+                Bạn đang xem ván đấu
+                {roomState?.players?.length ? `: ${roomState.players.map((p) => p.name).join(" vs ")}` : ""}
+                . Bàn cờ chỉ đọc.
+              </div>
+            )}
+
+            {!isSpectator && roomState && roomState.players.length < 2 && (
+              <div className="col-span-2 flex items-center gap-2 text-xs">
+                <span className="text-zinc-400">Chơi với máy:</span>
+                <select
+                  value={botLevel}
+                  onChange={(e) => setBotLevel(e.target.value as BotLevel)}
+                  className="flex-1 rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+                >
+                  {(Object.keys(BOT_LEVEL_LABELS) as BotLevel[]).map((level) => (
+                    <option key={level} value={level}>
+                      {BOT_LEVEL_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleAddBot}
+                  disabled={isSyncing}
+                  className="rounded-md border border-emerald-500 px-3 py-1.5 font-medium text-emerald-400 hover:bg-emerald-500/10 disabled:opacity-50"
+                >
+                  Thêm máy
+                </button>
+              </div>
+            )}
+
+            {!isSpectator && roomState && !roomState.result && (roomState.moves?.length ?? 0) > 0 && (
+              <div className="col-span-2 flex gap-2">
+                <button
+                  onClick={() => sendGameAction("resign")}
+                  disabled={isSyncing}
+                  className="flex-1 rounded-md border border-zinc-700 text-xs font-medium py-2 hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  Xin thua
+                </button>
+                <button
+                  onClick={() => sendGameAction("offer-draw")}
+                  disabled={isSyncing || roomState.drawOfferBy === playerColor}
+                  className="flex-1 rounded-md border border-zinc-700 text-xs font-medium py-2 hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  {roomState.drawOfferBy === playerColor ? "Đã mời hoà" : "Mời hoà"}
+                </button>
+                <button
+                  onClick={() => sendGameAction("request-undo")}
+                  disabled={isSyncing || Boolean(roomState.undoRequest)}
+                  className="flex-1 rounded-md border border-zinc-700 text-xs font-medium py-2 hover:bg-zinc-800 disabled:opacity-50"
+                >
+                  {roomState.undoRequest?.by === playerColor ? "Đã xin đi lại" : "Xin đi lại"}
+                </button>
+              </div>
+            )}
+
+            {!isSpectator && roomState && !roomState.result && roomState.undoRequest?.by === opponentColor && (
+              <div className="col-span-2 flex items-center justify-between gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                <span>
+                  {opponentName ?? "Đối thủ"} xin đi lại {roomState.undoRequest.plies} nửa nước.
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => sendGameAction("accept-undo")}
+                    disabled={isSyncing}
+                    className="rounded-md border border-emerald-500 px-2 py-1 text-emerald-400 hover:bg-emerald-500/10"
+                  >
+                    Đồng ý
+                  </button>
+                  <button
+                    onClick={() => sendGameAction("decline-undo")}
+                    disabled={isSyncing}
+                    className="rounded-md border border-zinc-700 px-2 py-1 hover:bg-zinc-800"
+                  >
+                    Từ chối
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {!isSpectator && roomState && !roomState.result && roomState.drawOfferBy === opponentColor && (
+              <div className="col-span-2 flex items-center justify-between gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+                <span>{opponentName ?? "Đối thủ"} mời hoà.</span>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => sendGameAction("accept-draw")}
+                    disabled={isSyncing}
+                    className="rounded-md border border-emerald-500 px-2 py-1 text-emerald-400 hover:bg-emerald-500/10"
+                  >
+                    Đồng ý
+                  </button>
+                  <button
+                    onClick={() => sendGameAction("decline-draw")}
+                    disabled={isSyncing}
+                    className="rounded-md border border-zinc-700 px-2 py-1 hover:bg-zinc-800"
+                  >
+                    Từ chối
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {!isSpectator && (
+              <button
+                onClick={handleEndGame}
+                disabled={isSyncing}
+                className={`col-span-2 rounded-md text-sm font-medium py-2 border transition-colors ${
+                  isSyncing ? "border-zinc-800 text-zinc-500 cursor-wait" : "border-red-500 text-red-400 hover:bg-red-500/10"
+                }`}
+              >
+                Kết thúc ván / đổi màu
+              </button>
+            )}
 
             <div className="col-span-2 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-400">
               <div className="flex flex-col gap-1">
@@ -823,12 +1881,21 @@ export default function ChessPage() {
                         Copy
                       </button>
                       {copiedRoomId && <span className="text-emerald-400 text-[10px]">Đã copy</span>}
+                      {(isSeated || isSpectator) && (
+                        <button
+                          onClick={handleLeaveRoom}
+                          disabled={isSyncing}
+                          className="rounded-full border border-zinc-700 px-2 py-1 text-[10px] uppercase tracking-wide hover:border-red-500 hover:text-red-400 disabled:opacity-50"
+                        >
+                          Rời phòng
+                        </button>
+                      )}
                     </>
                   ) : (
                     <span>Chưa có</span>
                   )}
                 </div>
-                {opponentName && (
+                {!isSpectator && opponentName && (
                   <div className="flex items-center gap-2 text-[11px] text-zinc-400">
                     {opponentAvatar && (
                       <span className="inline-flex items-center justify-center w-5 h-5 rounded-full bg-zinc-800">
@@ -838,7 +1905,17 @@ export default function ChessPage() {
                     <span>
                       Đối thủ:{" "}
                       <span className="text-zinc-100 font-medium">{opponentName}</span>
+                      {hostName && normalize(hostName) === normalize(opponentName) && " (chủ phòng)"}
                     </span>
+                    {isHost && (
+                      <button
+                        onClick={() => handleKickPlayer(opponentName)}
+                        disabled={isSyncing}
+                        className="rounded-full border border-zinc-700 px-2 py-0.5 text-[10px] hover:border-red-500 hover:text-red-400 disabled:opacity-50"
+                      >
+                        Mời ra
+                      </button>
+                    )}
                   </div>
                 )}
               </div>
@@ -857,9 +1934,14 @@ export default function ChessPage() {
                 <span>
                   Bạn cầm:{" "}
                   <span className="text-emerald-400 font-semibold">
-                    {playerColor === "white" ? "Trắng" : "Đen"}
+                    {isSpectator ? "Người xem" : playerColor === "white" ? "Trắng" : "Đen"}
                   </span>
                 </span>
+                {spectatorCount > 0 && (
+                  <span>
+                    Người xem: <span className="text-sky-400 font-semibold">{spectatorCount}</span>
+                  </span>
+                )}
               </div>
             </div>
           </div>
@@ -867,9 +1949,67 @@ export default function ChessPage() {
           <div className="space-y-2">
             <div className="flex items-center justify-between text-xs uppercase tracking-wide text-zinc-400">
               <span>Hướng nhìn: {orientation === "white" ? "Trắng" : "Đen"}</span>
-              <span className="text-emerald-400">{gameStatus}</span>
+              <span className={isReplaying ? "text-amber-300" : "text-emerald-400"}>
+                {isReplaying
+                  ? `Đang xem lại: nước ${currentPly}/${lastPly}`
+                  : resultStatus ?? gameStatus}
+              </span>
             </div>
-            <div className="aspect-square max-w-xl border-4 border-zinc-800 rounded-xl overflow-hidden mx-auto bg-zinc-900">
+            {roomState?.previousResult && (roomState.moves?.length ?? 0) === 0 && (
+              <p className="text-[11px] text-zinc-500">
+                Ván trước: {describeOutcome(roomState.previousResult.result, roomState.previousResult.termination)}
+                {roomState.previousResult.gameId && (
+                  <a
+                    href={`/api/chess/games/${roomState.previousResult.gameId}/pgn`}
+                    className="ml-2 text-emerald-400 hover:underline"
+                  >
+                    Tải PGN
+                  </a>
+                )}
+              </p>
+            )}
+            {opponentClockMs !== null && (
+              <div className="flex justify-end max-w-xl mx-auto">
+                <span
+                  className={`rounded-md px-3 py-1 font-mono text-lg ${
+                    isClockRunning && turn === opponentColor
+                      ? "bg-zinc-100 text-zinc-900"
+                      : "bg-zinc-900 text-zinc-400"
+                  } ${opponentClockMs < 10_000 ? "text-red-500" : ""}`}
+                >
+                  {formatClock(opponentClockMs)}
+                </span>
+              </div>
+            )}
+            <div className="relative aspect-square max-w-xl border-4 border-zinc-800 rounded-xl overflow-hidden mx-auto bg-zinc-900">
+              {pendingPromotion && (
+                <div className="absolute inset-0 z-10 flex items-center justify-center bg-zinc-950/70">
+                  <div className="rounded-xl border border-zinc-700 bg-zinc-900 p-4 space-y-3 text-center">
+                    <p className="text-xs text-zinc-300">Chọn quân phong cấp</p>
+                    <div className="flex gap-2">
+                      {PROMOTION_PIECES.map((type) => (
+                        <button
+                          key={type}
+                          type="button"
+                          onClick={() => handlePromotionChoice(type)}
+                          className="w-14 h-14 flex items-center justify-center rounded-md border border-zinc-700 bg-zinc-200 text-3xl hover:border-emerald-500"
+                        >
+                          <span className={playerColor === "white" ? "text-zinc-50 drop-shadow" : "text-zinc-900"}>
+                            {pieceToSymbol({ id: type, type, color: playerColor })}
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={cancelPromotion}
+                      className="text-[11px] text-zinc-400 hover:text-zinc-200"
+                    >
+                      Huỷ
+                    </button>
+                  </div>
+                </div>
+              )}
               <div className="w-full h-full grid grid-cols-8">
                 {Array.from({ length: BOARD_SIZE }).map((_, row) =>
                   Array.from({ length: BOARD_SIZE }).map((__, col) => {
@@ -883,6 +2023,7 @@ export default function ChessPage() {
                       <button
                         key={`${row}-${col}`}
                         onClick={() => handleSquareClick(row, col)}
+                        disabled={isSpectator}
                         className={`relative flex items-center justify-center text-2xl md:text-3xl font-semibold border border-zinc-900/10 aspect-square ${
                           isDark ? "bg-zinc-700" : "bg-zinc-200"
                         } ${isSelected ? "ring-2 ring-emerald-400" : ""} ${
@@ -901,6 +2042,19 @@ export default function ChessPage() {
                 )}
               </div>
             </div>
+            {myClockMs !== null && (
+              <div className="flex justify-end max-w-xl mx-auto">
+                <span
+                  className={`rounded-md px-3 py-1 font-mono text-lg ${
+                    isClockRunning && turn === playerColor
+                      ? "bg-zinc-100 text-zinc-900"
+                      : "bg-zinc-900 text-zinc-400"
+                  } ${myClockMs < 10_000 ? "text-red-500" : ""}`}
+                >
+                  {formatClock(myClockMs)}
+                </span>
+              </div>
+            )}
           </div>
         </section>
 
@@ -1023,16 +2177,139 @@ export default function ChessPage() {
             </div>
           </div>
 
-          <div className="rounded-xl border border-zinc-800 bg-zinc-900/60 p-4 max-h-[320px] flex flex-col">
-            <h2 className="text-sm font-semibold mb-2">Lịch sử nước đi</h2>
-            <div className="flex-1 overflow-y-auto text-xs text-zinc-200 space-y-1">
-              {movesHistory.length === 0 && <p className="text-zinc-500">Chưa có nước đi nào.</p>}
-              {movesHistory.map((move, idx) => (
-                <div key={`${move.san}-${idx}`} className="flex justify-between">
-                  <span className="text-zinc-500">#{movesHistory.length - idx}</span>
+          <div
+            className={`rounded-xl border border-zinc-800 bg-zinc-900/60 p-4 flex flex-col ${
+              activeAnalysis ? "max-h-[460px]" : "max-h-[320px]"
+            }`}
+          >
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-sm font-semibold">Lịch sử nước đi</h2>
+              <div className="flex gap-1">
+                {analysisSource && !activeAnalysis && (
+                  <button
+                    type="button"
+                    onClick={handleAnalyze}
+                    disabled={isAnalyzing}
+                    className="text-[10px] rounded-md border border-emerald-500 px-2 py-1 text-emerald-400 hover:bg-emerald-500/10 disabled:opacity-50"
+                  >
+                    {isAnalyzing ? "Đang phân tích..." : "Phân tích ván"}
+                  </button>
+                )}
+                {archivedReplay && (
+                  <button
+                    type="button"
+                    onClick={exitReplay}
+                    className="text-[10px] rounded-md border border-zinc-700 px-2 py-1 hover:border-emerald-500"
+                  >
+                    Về ván hiện tại
+                  </button>
+                )}
+              </div>
+            </div>
+            {activeAnalysis && (
+              <div className="mb-2 space-y-1">
+                <EvaluationGraph
+                  analysis={activeAnalysis}
+                  currentPly={currentPly}
+                  onSelectPly={goToPly}
+                />
+                <div className="flex justify-between text-[10px] text-zinc-400">
                   <span>
-                    {move.color === "w" ? "♙" : "♟"} {move.san}
+                    Điểm sau nước #{currentPly}:{" "}
+                    <span className="font-mono text-zinc-200">
+                      {((activeAnalysis.evaluations[currentPly] ?? 0) / 100).toFixed(1)}
+                    </span>
                   </span>
+                  <span>Độ sâu {activeAnalysis.depth}</span>
+                </div>
+              </div>
+            )}
+            {archivedReplay?.label && (
+              <p className="text-[11px] text-amber-300 mb-2">Đang xem: {archivedReplay.label}</p>
+            )}
+            <div className="flex items-center justify-between gap-1 mb-2">
+              {[
+                { label: "⏮", ply: 0, title: "Nước đầu (Home)" },
+                { label: "◀", ply: currentPly - 1, title: "Lùi (←)" },
+                { label: "▶", ply: currentPly + 1, title: "Tiến (→)" },
+                { label: "⏭", ply: lastPly, title: "Nước cuối (End)" },
+              ].map((control) => (
+                <button
+                  key={control.title}
+                  type="button"
+                  title={control.title}
+                  onClick={() => goToPly(control.ply)}
+                  className="flex-1 rounded-md border border-zinc-700 py-1 text-xs hover:border-emerald-500"
+                >
+                  {control.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex-1 overflow-y-auto text-xs text-zinc-200 space-y-1">
+              {movesHistory.length === 0 && <p className="text-zinc-500">Chưa có nước đi nào.</p>}
+              {movesHistory.map((move, idx) => {
+                const ply = movesHistory.length - idx;
+                const verdict = activeAnalysis?.moves[ply - 1];
+                const label = verdict ? CLASSIFICATION_LABELS[verdict.classification] : null;
+                return (
+                  <button
+                    key={`${move.san}-${idx}`}
+                    type="button"
+                    onClick={() => goToPly(ply)}
+                    className={`w-full flex justify-between rounded px-1 text-left hover:bg-zinc-800 ${
+                      ply === currentPly ? "bg-emerald-500/10 text-emerald-300" : ""
+                    }`}
+                  >
+                    <span className="text-zinc-500">#{ply}</span>
+                    <span>
+                      {move.color === "w" ? "♙" : "♟"} {move.san}
+                      {label?.symbol && (
+                        <span
+                          title={`${label.label}${verdict?.bestMove ? `, nên đi ${verdict.bestMove}` : ""}`}
+                          className={`ml-1 font-semibold ${label.className}`}
+                        >
+                          {label.symbol}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+
+          <div className="rounded-xl border border-zinc-800 bg-zinc-900/60 p-4 text-xs text-zinc-300 space-y-2">
+            <h2 className="text-sm font-semibold mb-1">Ván đã lưu của phòng</h2>
+            {archivedGames.length === 0 && (
+              <p className="text-zinc-500 text-[11px]">Chưa có ván nào kết thúc.</p>
+            )}
+            <div className="space-y-2 max-h-52 overflow-y-auto">
+              {archivedGames.map((game) => (
+                <div
+                  key={game._id}
+                  className="flex items-center justify-between gap-2 rounded-md border border-zinc-800 bg-zinc-950/40 px-2 py-2"
+                >
+                  <div className="flex flex-col">
+                    <span className="text-[11px] text-zinc-400">
+                      Ván {game.round + 1}: {game.players.map((p) => p.name).join(" vs ")}
+                    </span>
+                    <span className="text-[10px] text-emerald-400 font-mono">{game.result}</span>
+                  </div>
+                  <div className="flex gap-1">
+                    <button
+                      type="button"
+                      onClick={() => openArchivedGame(game._id)}
+                      className="px-2 py-1 text-[10px] rounded-md border border-emerald-500 text-emerald-400 hover:bg-emerald-500/10"
+                    >
+                      Xem lại
+                    </button>
+                    <a
+                      href={`/api/chess/games/${game._id}/pgn`}
+                      className="px-2 py-1 text-[10px] rounded-md border border-zinc-700 hover:border-emerald-500"
+                    >
+                      PGN
+                    </a>
+                  </div>
                 </div>
               ))}
             </div>
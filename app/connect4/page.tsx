@@ -0,0 +1,753 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MQTTClient, type MQTTStatus } from "@/lib/mqtt-client";
+import {
+  clearPlayerToken,
+  loadPlayerToken,
+  roomReadHeaders,
+  savePlayerToken,
+} from "@/lib/player-session";
+
+type DiscColor = "red" | "yellow";
+
+type Player = { name: string; color: DiscColor; avatar?: string };
+
+type RoomState = {
+  roomId: string;
+  players: Player[];
+  spectators?: { name: string }[];
+  board?: (DiscColor | null)[][];
+  moves?: { row: number; col: number; color: DiscColor }[];
+  turn?: DiscColor;
+  roundIndex?: number;
+  winner?: DiscColor | "draw" | null;
+  version?: number;
+  updatedAt?: string;
+};
+
+type SocketPayload =
+  | {
+      type: "move";
+      col: number;
+      room?: RoomState | null;
+      playerName: string;
+      clientId?: string;
+    }
+  | {
+      type: "room";
+      room: RoomState | null;
+      clientId?: string;
+    }
+  | {
+      type: "reset";
+      room: RoomState | null;
+      clientId?: string;
+    }
+  | {
+      type: "leave";
+      room: RoomState | null;
+      playerName: string;
+      reason: "leave" | "kick" | "timeout";
+      clientId?: string;
+    };
+
+const API_URL = "/api/games/connect4/room";
+const GAME_TYPE = "connect4";
+// Báo server còn kết nối để giữ ghế (server nhả ghế sau 2 phút không có tin)
+const HEARTBEAT_INTERVAL_MS = 20000;
+const ROWS = 6;
+const COLS = 7;
+
+const COLOR_LABELS: Record<DiscColor, string> = {
+  red: "Đỏ",
+  yellow: "Vàng",
+};
+
+const randomWordsA = ["Sáng", "Đêm", "Lửa", "Gió", "Biển", "Trăng", "Mây"];
+const randomWordsB = ["Đỏ", "Vàng", "Bốn", "Cột", "Game"];
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+function generateRandomName() {
+  const a = randomWordsA[Math.floor(Math.random() * randomWordsA.length)];
+  const b = randomWordsB[Math.floor(Math.random() * randomWordsB.length)];
+  const num = Math.floor(Math.random() * 90 + 10);
+  return `${a}${b}${num}`;
+}
+
+function generateRoomCode() {
+  return Math.random().toString(36).slice(2, 8).toUpperCase();
+}
+
+function emptyBoard(): (DiscColor | null)[][] {
+  return Array.from({ length: ROWS }, () => Array.from({ length: COLS }, () => null));
+}
+
+export default function Connect4Page() {
+  const [playerName, setPlayerName] = useState(() => generateRandomName());
+  const [storedNameLoaded, setStoredNameLoaded] = useState(false);
+  const [currentRoomId, setCurrentRoomId] = useState("");
+  const [inputRoomId, setInputRoomId] = useState(() => generateRoomCode());
+
+  const [roomState, setRoomState] = useState<RoomState | null>(null);
+  const [gameStatus, setGameStatus] = useState("Đang chờ tạo phòng...");
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [copiedRoomId, setCopiedRoomId] = useState(false);
+  const [mqttStatus, setMqttStatus] = useState<MQTTStatus>("closed");
+  // clientId -> tên người dùng, để phân biệt người chơi với người xem
+  const [onlineClients, setOnlineClients] = useState<Map<string, string>>(new Map());
+  const [inviteUrl, setInviteUrl] = useState("");
+  const [copiedInviteUrl, setCopiedInviteUrl] = useState(false);
+
+  const mqttClientRef = useRef<MQTTClient | null>(null);
+  const autoCreateRef = useRef(false);
+  const autoJoinRef = useRef(false);
+  const clientIdRef = useRef(
+    typeof crypto !== "undefined" && "randomUUID" in crypto
+      ? crypto.randomUUID()
+      : `client_${Math.random().toString(36).slice(2)}`
+  );
+
+  const board = roomState?.board ?? emptyBoard();
+  const turn = roomState?.turn ?? "red";
+  const me = roomState?.players?.find((p) => normalize(p.name) === normalize(playerName));
+  const myColor = me?.color ?? null;
+  const opponent = roomState?.players?.find((p) => normalize(p.name) !== normalize(playerName));
+  const isSpectator = Boolean(
+    roomState && !me && roomState.spectators?.some((p) => normalize(p.name) === normalize(playerName))
+  );
+  const lastMove = roomState?.moves?.[roomState.moves.length - 1] ?? null;
+
+  // Lock dựa trên số người chơi (có ghế trong DB) đang online qua MQTT, không tính người xem
+  const onlineSeatedCount = [...onlineClients.values()].filter((name) =>
+    roomState?.players?.some((p) => normalize(p.name) === normalize(name))
+  ).length;
+  const isLocked = onlineSeatedCount >= 2;
+  const spectatorCount = roomState?.spectators?.length ?? 0;
+  const canDrop = Boolean(
+    currentRoomId && myColor && turn === myColor && !roomState?.winner && !isSyncing
+  );
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    const stored = window.localStorage.getItem("gws_player_name");
+    if (stored) {
+      setPlayerName(stored);
+    } else {
+      window.localStorage.setItem("gws_player_name", playerName);
+    }
+    setStoredNameLoaded(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (!storedNameLoaded || !playerName) return;
+    if (typeof window === "undefined") return;
+    window.localStorage.setItem("gws_player_name", playerName);
+  }, [playerName, storedNameLoaded]);
+
+  const handleCreateRoom = useCallback(
+    async (options?: { auto?: boolean }) => {
+      if (!playerName) {
+        if (!options?.auto) alert("Nhập tên người chơi trước khi tạo phòng.");
+        return;
+      }
+      const roomId = generateRoomCode();
+      setIsSyncing(true);
+      try {
+        const res = await fetch(API_URL, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ action: "create", playerName, roomId }),
+        });
+        const data: { roomId: string; room?: RoomState | null; token?: string; error?: string } =
+          await res.json();
+        if (!res.ok) throw new Error(data.error || "Không tạo được phòng");
+        if (data.token) savePlayerToken(GAME_TYPE, data.roomId, data.token);
+        setCurrentRoomId(data.roomId);
+        setInputRoomId(data.roomId);
+        syncRoomState(data.room ?? null);
+        emitMQTTMessage("room", { room: data.room ?? null });
+      } catch (err) {
+        if (!options?.auto) {
+          console.error(err);
+          alert("Không tạo được phòng, thử lại nhé.");
+        }
+      } finally {
+        setIsSyncing(false);
+      }
+    },
+    [playerName]
+  );
+
+  useEffect(() => {
+    if (!storedNameLoaded || autoCreateRef.current) return;
+    // Link mời có roomId thì vào phòng đó thay vì tạo phòng mới
+    if (new URL(window.location.href).searchParams.get("roomId")) return;
+    autoCreateRef.current = true;
+    handleCreateRoom({ auto: true });
+  }, [storedNameLoaded, handleCreateRoom]);
+
+  // MQTT connection
+  useEffect(() => {
+    if (typeof window === "undefined" || !currentRoomId || !playerName) return;
+
+    if (!mqttClientRef.current) {
+      mqttClientRef.current = new MQTTClient(clientIdRef.current);
+      mqttClientRef.current.setOnStatusChange((status) => {
+        setMqttStatus(status);
+        // Khi connected, publish presence và thêm mình vào online clients
+        if (status === "connected" && mqttClientRef.current) {
+          setOnlineClients((prev) => new Map(prev).set(clientIdRef.current, playerName));
+          mqttClientRef.current.publish("presence", {
+            playerName,
+            clientId: clientIdRef.current,
+            action: "connect",
+          });
+        } else if (status === "closed" || status === "error") {
+          setOnlineClients((prev) => {
+            const next = new Map(prev);
+            next.delete(clientIdRef.current);
+            return next;
+          });
+        }
+      });
+      mqttClientRef.current.setOnMessage((message) => {
+        handleMQTTMessage(message);
+      });
+    }
+
+    mqttClientRef.current.connect(currentRoomId, playerName);
+
+    return () => {
+      if (mqttClientRef.current) {
+        if (mqttStatus === "connected") {
+          try {
+            mqttClientRef.current.publish("presence", {
+              playerName,
+              clientId: clientIdRef.current,
+              action: "disconnect",
+            });
+          } catch {
+            // ignore nếu không publish được
+          }
+        }
+        mqttClientRef.current.disconnect();
+      }
+      setOnlineClients(new Map());
+    };
+  }, [currentRoomId, playerName, mqttStatus]);
+
+  function emitMQTTMessage(type: string, payload: Record<string, unknown>) {
+    if (!mqttClientRef.current || mqttStatus !== "connected") return;
+    mqttClientRef.current.publish(type, payload);
+  }
+
+  function handleMQTTMessage(message: Record<string, unknown> & { type?: string; clientId?: string }) {
+    if (message.clientId && message.clientId === clientIdRef.current) return;
+    if (!message.type) return;
+
+    if (message.type === "presence" && message.clientId) {
+      const action = message.action as string;
+      if (action === "connect") {
+        setOnlineClients((prev) =>
+          new Map(prev).set(message.clientId as string, String(message.playerName ?? ""))
+        );
+      } else if (action === "disconnect") {
+        setOnlineClients((prev) => {
+          const next = new Map(prev);
+          next.delete(message.clientId as string);
+          return next;
+        });
+      }
+      return;
+    }
+
+    // Handle disconnect từ last will (khi client disconnect đột ngột)
+    if (message.type === "disconnect" && message.clientId) {
+      setOnlineClients((prev) => {
+        const next = new Map(prev);
+        next.delete(message.clientId as string);
+        return next;
+      });
+      return;
+    }
+
+    const typedMessage = message as SocketPayload;
+    // Server báo có người bị nhả ghế; chính mình thì token cũ không còn dùng được
+    if (
+      typedMessage.type === "leave" &&
+      typedMessage.reason !== "leave" &&
+      normalize(typedMessage.playerName) === normalize(playerName)
+    ) {
+      clearPlayerToken(GAME_TYPE, typedMessage.room?.roomId ?? currentRoomId);
+    }
+    if (
+      typedMessage.type === "move" ||
+      typedMessage.type === "room" ||
+      typedMessage.type === "reset" ||
+      typedMessage.type === "leave"
+    ) {
+      syncRoomState(typedMessage.room ?? null);
+    }
+  }
+
+  function syncRoomState(room: RoomState | null) {
+    if (!room) return;
+    setRoomState(room);
+    setCurrentRoomId(room.roomId);
+    setInputRoomId(room.roomId);
+    updateGameStatus(room);
+  }
+
+  function updateGameStatus(room: RoomState) {
+    if (room.winner === "draw") {
+      setGameStatus("Ván đấu hoà!");
+    } else if (room.winner) {
+      setGameStatus(`${COLOR_LABELS[room.winner]} giành chiến thắng!`);
+    } else if (room.turn) {
+      setGameStatus(`Tới lượt ${COLOR_LABELS[room.turn]}`);
+    } else {
+      setGameStatus("Đang chờ người chơi...");
+    }
+  }
+
+  async function reloadRoom() {
+    if (!currentRoomId) return;
+    try {
+      const res = await fetch(`${API_URL}?roomId=${currentRoomId}`, {
+        headers: roomReadHeaders(GAME_TYPE, currentRoomId),
+      });
+      if (!res.ok) return;
+      const data: { room?: RoomState | null } = await res.json();
+      if (data.room) syncRoomState(data.room);
+    } catch {
+      // ignore
+    }
+  }
+
+  async function handleSpectateRoom(roomIdOverride?: string) {
+    if (!playerName) {
+      alert("Nhập tên trước khi vào xem.");
+      return;
+    }
+    const roomId = (roomIdOverride ?? inputRoomId).trim().toUpperCase();
+    if (!roomId) {
+      alert("Nhập mã phòng để vào xem.");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch(API_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "spectate", playerName, roomId }),
+      });
+      const data: { roomId: string; room?: RoomState | null; error?: string } = await res.json();
+      if (!res.ok) throw new Error(data.error || "Không vào xem được phòng");
+      setCurrentRoomId(data.roomId);
+      syncRoomState(data.room ?? null);
+      emitMQTTMessage("room", { room: data.room ?? null });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Không vào xem được phòng, thử lại sau.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  async function handleJoinRoom(roomIdOverride?: string) {
+    if (!playerName) {
+      alert("Nhập tên người chơi trước khi vào phòng.");
+      return;
+    }
+    const roomId = (roomIdOverride ?? inputRoomId).trim().toUpperCase();
+    if (!roomId) {
+      alert("Nhập mã phòng để vào.");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch(API_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "join",
+          playerName,
+          roomId,
+          token: loadPlayerToken(GAME_TYPE, roomId),
+        }),
+      });
+      if (res.status === 403) {
+        // Phòng đủ người: cho phép vào xem thay vì chặn hẳn
+        if (window.confirm("Phòng đã đủ người chơi. Vào xem ván đấu?")) {
+          await handleSpectateRoom(roomId);
+        }
+        return;
+      }
+      const data: { roomId: string; room?: RoomState | null; token?: string; error?: string } =
+        await res.json();
+      if (!res.ok) throw new Error(data.error || "Không vào được phòng");
+      if (data.token) savePlayerToken(GAME_TYPE, data.roomId, data.token);
+      setCurrentRoomId(data.roomId);
+      syncRoomState(data.room ?? null);
+      emitMQTTMessage("room", { room: data.room ?? null });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Không vào được phòng, thử lại sau.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  async function handleDrop(col: number) {
+    if (!currentRoomId) {
+      alert("Hãy tạo hoặc vào phòng trước khi chơi.");
+      return;
+    }
+    if (isSpectator) {
+      setGameStatus("Bạn đang xem, không thể thả quân.");
+      return;
+    }
+    if (roomState?.winner) {
+      setGameStatus("Ván đấu đã kết thúc!");
+      return;
+    }
+    if (turn !== myColor) {
+      setGameStatus("Chưa tới lượt của bạn!");
+      return;
+    }
+    if (board[0][col] !== null) {
+      setGameStatus("Cột này đã đầy!");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch(API_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "move",
+          roomId: currentRoomId,
+          col,
+          token: loadPlayerToken(GAME_TYPE, currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        // Đối thủ vừa cập nhật phòng: tải lại trạng thái mới nhất rồi đi lại
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không thể thực hiện nước đi");
+        return;
+      }
+      syncRoomState(data.room ?? null);
+      emitMQTTMessage("move", { col, room: data.room ?? null, playerName });
+    } catch {
+      setGameStatus("Không thể thực hiện nước đi");
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  async function handleEndGame() {
+    if (!currentRoomId) return;
+
+    const confirmReset = window.confirm("Kết thúc ván, xoá bàn và đổi màu cho ván tiếp?");
+    if (!confirmReset) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch(API_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "finish",
+          roomId: currentRoomId,
+          token: loadPlayerToken(GAME_TYPE, currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không kết thúc được ván, thử lại sau.");
+        return;
+      }
+      syncRoomState(data.room ?? null);
+      emitMQTTMessage("reset", { room: data.room ?? null });
+    } catch {
+      setGameStatus("Không kết thúc được ván, thử lại sau.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  function copyText(text: string, onCopied: () => void) {
+    if (!text || typeof navigator === "undefined") return;
+    navigator.clipboard
+      .writeText(text)
+      .then(onCopied)
+      .catch(() => alert("Không thể sao chép, hãy copy thủ công."));
+  }
+
+  function handleCopyRoomId() {
+    copyText(currentRoomId, () => {
+      setCopiedRoomId(true);
+      window.setTimeout(() => setCopiedRoomId(false), 1500);
+    });
+  }
+
+  function handleCopyInviteUrl() {
+    copyText(inviteUrl, () => {
+      setCopiedInviteUrl(true);
+      window.setTimeout(() => setCopiedInviteUrl(false), 1500);
+    });
+  }
+
+  // Heartbeat giữ ghế (người xem gửi theo tên để còn được tính là đang xem); server cũng
+  // nhả ghế của đối thủ đã mất kết nối và báo qua MQTT
+  useEffect(() => {
+    if (!currentRoomId || !playerName) return;
+    const roomId = currentRoomId;
+    let cancelled = false;
+    const beat = () => {
+      const token = loadPlayerToken(GAME_TYPE, roomId);
+      fetch(API_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "heartbeat", roomId, ...(token ? { token } : { playerName }) }),
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: { room?: RoomState | null } | null) => {
+          const spectators = data?.room?.spectators;
+          if (cancelled || !spectators) return;
+          // Chỉ lấy danh sách người xem (đã bỏ người rời đi), ván vẫn đồng bộ qua MQTT / polling
+          setRoomState((prev) => (prev?.roomId === roomId ? { ...prev, spectators } : prev));
+        })
+        .catch(() => {
+          // ignore, lần sau gửi lại
+        });
+    };
+    beat();
+    const id = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+    };
+  }, [currentRoomId, playerName]);
+
+  useEffect(() => {
+    if (typeof window === "undefined" || !currentRoomId) return;
+    const url = new URL(window.location.href);
+    url.searchParams.set("roomId", currentRoomId);
+    setInviteUrl(url.toString());
+  }, [currentRoomId]);
+
+  useEffect(() => {
+    if (!storedNameLoaded || autoJoinRef.current) return;
+    const roomIdFromUrl = new URL(window.location.href).searchParams.get("roomId");
+    if (!roomIdFromUrl) return;
+    autoJoinRef.current = true;
+    setInputRoomId(roomIdFromUrl.toUpperCase());
+    handleJoinRoom(roomIdFromUrl);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [storedNameLoaded]);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center px-4">
+      <main className="w-full max-w-4xl py-10 flex flex-col gap-8">
+        <header className="mb-2">
+          <h1 className="text-2xl font-bold tracking-tight mb-1">Connect Four realtime</h1>
+          <p className="text-xs text-zinc-400">
+            Thả quân vào cột, quân rơi xuống ô trống thấp nhất. Xếp 4 quân liên tiếp theo hàng
+            ngang, dọc hoặc chéo để thắng. Hết mỗi ván hai bên đổi màu.
+          </p>
+        </header>
+
+        <div className="grid grid-cols-2 gap-3 rounded-xl border border-zinc-800 bg-zinc-900/60 p-3">
+          <div className="space-y-2">
+            <label className="text-xs text-zinc-400">Tên người chơi (lưu local)</label>
+            <input
+              value={playerName}
+              onChange={(e) => !isLocked && setPlayerName(e.target.value)}
+              placeholder="Ví dụ: Sangle"
+              disabled={isLocked}
+              className={`w-full rounded-md bg-zinc-950 border border-zinc-700 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-emerald-500 ${
+                isLocked ? "opacity-60 cursor-not-allowed" : ""
+              }`}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs text-zinc-400">Mã phòng (auto tạo)</label>
+            <input
+              value={inputRoomId}
+              onChange={(e) => !isLocked && setInputRoomId(e.target.value.toUpperCase())}
+              placeholder="VD: ABC123"
+              disabled={isLocked}
+              className={`w-full rounded-md bg-zinc-950 border border-zinc-700 px-3 py-2 text-sm uppercase outline-none focus:ring-2 focus:ring-emerald-500 ${
+                isLocked ? "opacity-60 cursor-not-allowed" : ""
+              }`}
+            />
+          </div>
+
+          <div className="flex gap-2 col-span-2">
+            <button
+              onClick={() => handleCreateRoom()}
+              disabled={isSyncing}
+              className={`flex-1 rounded-md text-sm font-medium py-2 transition-colors ${
+                isSyncing ? "bg-emerald-900 cursor-not-allowed" : "bg-emerald-500 hover:bg-emerald-400"
+              }`}
+            >
+              Tạo phòng mới
+            </button>
+            <button
+              onClick={() => handleJoinRoom()}
+              disabled={isSyncing}
+              className={`flex-1 rounded-md border border-zinc-700 text-sm font-medium py-2 transition-colors ${
+                isSyncing ? "text-zinc-500 cursor-not-allowed" : "hover:bg-zinc-800"
+              }`}
+            >
+              Vào phòng bằng mã
+            </button>
+            <button
+              onClick={() => handleSpectateRoom()}
+              disabled={isSyncing}
+              className={`rounded-md border border-zinc-700 px-3 text-sm font-medium py-2 transition-colors ${
+                isSyncing ? "text-zinc-500 cursor-not-allowed" : "hover:bg-zinc-800"
+              }`}
+            >
+              Vào xem
+            </button>
+          </div>
+
+          {isSpectator && (
+            <div className="col-span-2 rounded-md border border-sky-500/40 bg-sky-500/10 px-3 py-2 text-xs text-sky-200">
+              Bạn đang xem ván đấu
+              {roomState?.players?.length
+                ? `: ${roomState.players.map((p) => `${p.name} (${COLOR_LABELS[p.color]})`).join(" vs ")}`
+                : ""}
+              . Bàn chơi chỉ đọc.
+            </div>
+          )}
+
+          {!isSpectator && (
+            <button
+              onClick={handleEndGame}
+              disabled={isSyncing || !currentRoomId}
+              className={`col-span-2 rounded-md text-sm font-medium py-2 border transition-colors ${
+                isSyncing ? "border-zinc-800 text-zinc-500 cursor-wait" : "border-red-500 text-red-400 hover:bg-red-500/10"
+              }`}
+            >
+              Kết thúc ván / đổi màu
+            </button>
+          )}
+
+          <div className="col-span-2 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-400">
+            <div className="flex items-center gap-2">
+              <span>Phòng:</span>
+              {currentRoomId ? (
+                <>
+                  <span className="font-semibold text-emerald-400">{currentRoomId}</span>
+                  <button
+                    onClick={handleCopyRoomId}
+                    className="rounded-full border border-zinc-700 px-2 py-1 text-[10px] uppercase tracking-wide hover:border-emerald-500"
+                  >
+                    Copy
+                  </button>
+                  {copiedRoomId && <span className="text-emerald-400 text-[10px]">Đã copy</span>}
+                </>
+              ) : (
+                <span>Chưa có</span>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <span className={mqttStatus === "connected" ? "text-emerald-400" : "text-zinc-500"}>
+                MQTT: {mqttStatus}
+              </span>
+              <span>
+                Lượt đi: <span className="text-emerald-400 font-semibold">{COLOR_LABELS[turn]}</span>
+              </span>
+              <span>
+                Bạn cầm:{" "}
+                <span className="text-emerald-400 font-semibold">
+                  {isSpectator ? "Người xem" : myColor ? COLOR_LABELS[myColor] : "-"}
+                </span>
+              </span>
+              {spectatorCount > 0 && (
+                <span>
+                  Người xem: <span className="text-sky-400 font-semibold">{spectatorCount}</span>
+                </span>
+              )}
+            </div>
+          </div>
+
+          {!isSpectator && opponent && (
+            <div className="col-span-2 text-xs text-zinc-300">
+              <span>Đối thủ: </span>
+              <span className="font-semibold text-emerald-400">{opponent.name}</span>
+              <span className="text-zinc-500 ml-2">({COLOR_LABELS[opponent.color]})</span>
+            </div>
+          )}
+
+          {inviteUrl && (
+            <div className="col-span-2 flex items-center gap-2">
+              <span className="text-xs text-zinc-400">Link mời:</span>
+              <input
+                value={inviteUrl}
+                readOnly
+                className="flex-1 rounded-md bg-zinc-950 border border-zinc-700 px-3 py-1.5 text-xs outline-none"
+              />
+              <button
+                onClick={handleCopyInviteUrl}
+                className="rounded-full border border-zinc-700 px-2 py-1 text-[10px] uppercase tracking-wide hover:border-emerald-500"
+              >
+                {copiedInviteUrl ? "Đã copy" : "Copy"}
+              </button>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between text-xs uppercase tracking-wide text-zinc-400">
+            <span>Trạng thái: {gameStatus}</span>
+          </div>
+          <div className="flex justify-center">
+            <div className="grid grid-cols-7 gap-1.5 rounded-xl border-4 border-blue-900 bg-blue-800 p-2">
+              {board.map((row, rowIndex) =>
+                row.map((cell, colIndex) => {
+                  const isLast = lastMove?.row === rowIndex && lastMove?.col === colIndex;
+                  return (
+                    <button
+                      key={`${rowIndex}-${colIndex}`}
+                      onClick={() => handleDrop(colIndex)}
+                      disabled={!canDrop || board[0][colIndex] !== null}
+                      aria-label={`Cột ${colIndex + 1}`}
+                      className={`w-10 h-10 md:w-14 md:h-14 rounded-full border-2 transition-colors ${
+                        cell === "red"
+                          ? "bg-red-500 border-red-300"
+                          : cell === "yellow"
+                          ? "bg-yellow-400 border-yellow-200"
+                          : "bg-zinc-950 border-blue-950"
+                      } ${isLast ? "ring-4 ring-emerald-400" : ""} ${
+                        canDrop && board[0][colIndex] === null ? "cursor-pointer" : "cursor-not-allowed"
+                      }`}
+                    />
+                  );
+                })
+              )}
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+
+type RatedGameType = "chess" | "xo";
+
+type LeaderboardEntry = {
+  rank: number;
+  name: string;
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+};
+
+const GAME_TABS: { id: RatedGameType; label: string }[] = [
+  { id: "chess", label: "Cờ vua" },
+  { id: "xo", label: "XO" },
+];
+
+const PAGE_SIZE = 20;
+
+export default function LeaderboardPage() {
+  const [gameType, setGameType] = useState<RatedGameType>("chess");
+  const [page, setPage] = useState(1);
+  const [players, setPlayers] = useState<LeaderboardEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+  // Tên đang dùng ở các trang game, để tô sáng dòng của mình
+  const [myName] = useState(() =>
+    typeof window === "undefined" ? "" : window.localStorage.getItem("gws_player_name") ?? ""
+  );
+
+  function showPage(nextGameType: RatedGameType, nextPage: number) {
+    if (nextGameType === gameType && nextPage === page) return;
+    setIsLoading(true);
+    setError("");
+    setGameType(nextGameType);
+    setPage(nextPage);
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/leaderboard?gameType=${gameType}&page=${page}&limit=${PAGE_SIZE}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Không tải được bảng xếp hạng");
+        if (cancelled) return;
+        setPlayers(data.players ?? []);
+        setTotal(data.total ?? 0);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameType, page]);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center px-4">
+      <main className="w-full max-w-3xl py-12 flex flex-col gap-6">
+        <header>
+          <Link href="/" className="text-xs text-zinc-400 hover:text-emerald-400">
+            ← Trang chủ
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight mt-2 mb-1">Bảng xếp hạng</h1>
+          <p className="text-zinc-400 text-sm">
+            Điểm Elo tính sau mỗi ván có kết quả (bấm kết thúc ván). Ván chơi với máy không được
+            tính, người mới bắt đầu từ 1200 điểm.
+          </p>
+        </header>
+
+        <div className="flex gap-2">
+          {GAME_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              onClick={() => showPage(tab.id, 1)}
+              className={`rounded-full border px-4 py-1.5 text-sm transition-colors ${
+                gameType === tab.id
+                  ? "border-emerald-500 text-emerald-400 bg-emerald-500/10"
+                  : "border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        <section className="rounded-xl border border-zinc-800 bg-zinc-900/60 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-900 text-xs uppercase tracking-wide text-zinc-400">
+              <tr>
+                <th className="px-4 py-2 text-left">#</th>
+                <th className="px-4 py-2 text-left">Người chơi</th>
+                <th className="px-4 py-2 text-right">Elo</th>
+                <th className="px-4 py-2 text-right">Số ván</th>
+                <th className="px-4 py-2 text-right">Thắng / Hoà / Thua</th>
+              </tr>
+            </thead>
+            <tbody>
+              {players.map((p) => {
+                const isMe = myName && p.name.trim().toLowerCase() === myName.trim().toLowerCase();
+                return (
+                  <tr
+                    key={p.name}
+                    className={`border-t border-zinc-800 ${isMe ? "bg-emerald-500/10" : ""}`}
+                  >
+                    <td className="px-4 py-2 text-zinc-500">{p.rank}</td>
+                    <td className="px-4 py-2 font-medium">
+                      <Link
+                        href={`/players/${encodeURIComponent(p.name)}`}
+                        className="hover:text-emerald-400"
+                      >
+                        {p.name}
+                      </Link>
+                      {isMe && <span className="ml-2 text-[10px] text-emerald-400">(bạn)</span>}
+                    </td>
+                    <td className="px-4 py-2 text-right font-semibold text-emerald-400">{p.rating}</td>
+                    <td className="px-4 py-2 text-right text-zinc-300">{p.games}</td>
+                    <td className="px-4 py-2 text-right text-zinc-400">
+                      {p.wins} / {p.draws} / {p.losses}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {!isLoading && !error && players.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-zinc-500">Chưa có ván nào được tính điểm.</p>
+          )}
+          {isLoading && <p className="px-4 py-6 text-center text-sm text-zinc-500">Đang tải...</p>}
+          {error && <p className="px-4 py-6 text-center text-sm text-red-400">{error}</p>}
+        </section>
+
+        <div className="flex items-center justify-between text-xs text-zinc-400">
+          <button
+            onClick={() => showPage(gameType, Math.max(1, page - 1))}
+            disabled={page <= 1 || isLoading}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 hover:bg-zinc-800 disabled:opacity-40"
+          >
+            ← Trang trước
+          </button>
+          <span>
+            Trang {page} / {totalPages} · {total} người chơi
+          </span>
+          <button
+            onClick={() => showPage(gameType, Math.min(totalPages, page + 1))}
+            disabled={page >= totalPages || isLoading}
+            className="rounded-md border border-zinc-700 px-3 py-1.5 hover:bg-zinc-800 disabled:opacity-40"
+          >
+            Trang sau →
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+}
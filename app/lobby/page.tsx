@@ -0,0 +1,192 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { subscribeTopic } from "@/lib/mqtt-client";
+
+type RoomStatus = "waiting" | "active" | "finished";
+
+type RoomSummary = {
+  roomId: string;
+  gameType: string;
+  status: RoomStatus;
+  players: { name: string; avatar?: string; bot?: string }[];
+  maxPlayers: number;
+  spectators: number;
+  updatedAt: string | null;
+};
+
+const GAME_TABS: { id: string; label: string }[] = [
+  { id: "", label: "Tất cả" },
+  { id: "chess", label: "Cờ vua" },
+  { id: "xo", label: "XO" },
+  { id: "connect4", label: "Connect Four" },
+];
+
+const STATUS_LABELS: Record<RoomStatus, { label: string; className: string }> = {
+  waiting: { label: "Đang chờ đối thủ", className: "border-emerald-500/40 text-emerald-400" },
+  active: { label: "Đang chơi", className: "border-amber-500/40 text-amber-300" },
+  finished: { label: "Đã kết thúc", className: "border-zinc-700 text-zinc-400" },
+};
+
+const GAME_LABELS: Record<string, string> = {
+  chess: "Cờ vua",
+  xo: "XO",
+  connect4: "Connect Four",
+};
+
+const MAX_ROOMS = 50;
+
+const roomKey = (room: RoomSummary) => `${room.gameType}:${room.roomId}`;
+
+export default function LobbyPage() {
+  const [gameType, setGameType] = useState("");
+  const [status, setStatus] = useState<RoomStatus | "">("waiting");
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  function showRooms(nextGameType: string, nextStatus: RoomStatus | "") {
+    if (nextGameType === gameType && nextStatus === status) return;
+    setIsLoading(true);
+    setError("");
+    setGameType(nextGameType);
+    setStatus(nextStatus);
+  }
+
+  useEffect(() => {
+    let cancelled = false;
+    const query = new URLSearchParams({ limit: String(MAX_ROOMS) });
+    if (gameType) query.set("gameType", gameType);
+    if (status) query.set("status", status);
+
+    fetch(`/api/rooms?${query}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Không tải được danh sách phòng");
+        if (!cancelled) setRooms(data.rooms ?? []);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    // Server báo qua MQTT mỗi khi phòng đổi trạng thái / người chơi, không cần poll
+    const unsubscribe = subscribeTopic(`lobby/${gameType || "+"}/room`, (message) => {
+      const room = message.room as RoomSummary | undefined;
+      if (!room?.roomId || cancelled) return;
+      setRooms((prev) => {
+        const others = prev.filter((r) => roomKey(r) !== roomKey(room));
+        if (status && room.status !== status) return others;
+        return [room, ...others].slice(0, MAX_ROOMS);
+      });
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [gameType, status]);
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center px-4">
+      <main className="w-full max-w-3xl py-12 flex flex-col gap-6">
+        <header>
+          <Link href="/" className="text-xs text-zinc-400 hover:text-emerald-400">
+            ← Trang chủ
+          </Link>
+          <h1 className="text-3xl font-bold tracking-tight mt-2 mb-1">Sảnh chờ</h1>
+          <p className="text-zinc-400 text-sm">
+            Các phòng đang hoạt động trong 5 phút gần đây, tự cập nhật khi có người vào phòng
+            hoặc ván kết thúc.
+          </p>
+        </header>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex flex-wrap gap-2">
+            {GAME_TABS.map((tab) => (
+              <button
+                key={tab.id || "all"}
+                onClick={() => showRooms(tab.id, status)}
+                className={`rounded-full border px-4 py-1.5 text-sm transition-colors ${
+                  gameType === tab.id
+                    ? "border-emerald-500 text-emerald-400 bg-emerald-500/10"
+                    : "border-zinc-700 text-zinc-300 hover:bg-zinc-800"
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={status}
+            onChange={(e) => showRooms(gameType, e.target.value as RoomStatus | "")}
+            className="rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            <option value="">Mọi trạng thái</option>
+            {(Object.keys(STATUS_LABELS) as RoomStatus[]).map((s) => (
+              <option key={s} value={s}>
+                {STATUS_LABELS[s].label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <section className="space-y-2">
+          {rooms.map((room) => (
+            <div
+              key={roomKey(room)}
+              className="flex items-center justify-between gap-3 rounded-xl border border-zinc-800 bg-zinc-900/60 px-4 py-3"
+            >
+              <div className="flex items-center gap-3">
+                <div className="flex -space-x-1">
+                  {room.players.slice(0, 2).map((p) => (
+                    <div
+                      key={p.name}
+                      className="w-8 h-8 rounded-full bg-zinc-800 flex items-center justify-center text-base border border-zinc-900"
+                    >
+                      {p.avatar || (p.bot ? "🤖" : "👤")}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-col">
+                  <span className="text-sm">
+                    {room.players.map((p) => p.name).join(" vs ")}
+                    {room.players.length < room.maxPlayers && (
+                      <span className="text-zinc-500"> · còn {room.maxPlayers - room.players.length} ghế</span>
+                    )}
+                  </span>
+                  <span className="text-[11px] text-zinc-500">
+                    {GAME_LABELS[room.gameType] ?? room.gameType} ·{" "}
+                    <span className="font-mono text-emerald-400">{room.roomId}</span>
+                    {room.spectators > 0 && ` · ${room.spectators} người xem`}
+                  </span>
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <span
+                  className={`rounded-full border px-2 py-0.5 text-[10px] ${STATUS_LABELS[room.status].className}`}
+                >
+                  {STATUS_LABELS[room.status].label}
+                </span>
+                <Link
+                  href={`/${room.gameType}?roomId=${room.roomId}`}
+                  className="rounded-md border border-emerald-500 px-3 py-1 text-xs text-emerald-400 hover:bg-emerald-500/10"
+                >
+                  {room.status === "waiting" ? "Vào" : "Xem"}
+                </Link>
+              </div>
+            </div>
+          ))}
+          {!isLoading && !error && rooms.length === 0 && (
+            <p className="py-6 text-center text-sm text-zinc-500">Chưa có phòng nào phù hợp.</p>
+          )}
+          {isLoading && <p className="py-6 text-center text-sm text-zinc-500">Đang tải...</p>}
+          {error && <p className="py-6 text-center text-sm text-red-400">{error}</p>}
+        </section>
+      </main>
+    </div>
+  );
+}
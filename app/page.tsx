@@ -15,6 +15,13 @@ const games = [
     href: "/xo",
     status: "available" as const,
   },
+  {
+    id: "connect4",
+    name: "Connect Four (Xếp 4)",
+    description: "Thả quân vào bàn 7x6, ai xếp được 4 quân thẳng hàng trước sẽ thắng.",
+    href: "/connect4",
+    status: "available" as const,
+  },
 ];
 
 export default function Home() {
@@ -28,6 +35,18 @@ export default function Home() {
           <p className="text-zinc-400 text-sm">
             Danh sách game nhiều người chơi. Bắt đầu với cờ vua.
           </p>
+          <Link
+            href="/leaderboard"
+            className="inline-block mt-3 text-sm text-emerald-400 hover:text-emerald-300"
+          >
+            Bảng xếp hạng Elo →
+          </Link>
+          <Link
+            href="/lobby"
+            className="inline-block mt-3 ml-4 text-sm text-emerald-400 hover:text-emerald-300"
+          >
+            Sảnh chờ →
+          </Link>
         </header>
 
         <section className="space-y-4">
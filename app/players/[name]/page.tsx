@@ -0,0 +1,231 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useEffect, useState } from "react";
+
+type GameRating = {
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+};
+
+type GameStats = { gameType: string; games: number; wins: number; losses: number; draws: number };
+
+type HeadToHead = Omit<GameStats, "gameType"> & { opponent: string; bot?: string };
+
+type ResultPlayer = { name: string; nameKey: string; avatar?: string; score: 0 | 0.5 | 1; bot?: string };
+
+type GameResult = {
+  gameType: string;
+  gameId: string;
+  roomId: string;
+  round: number;
+  players: ResultPlayer[];
+  rated: boolean;
+  endedAt: string;
+};
+
+type PlayerProfile = {
+  player: { name: string; avatar: string | null };
+  ratings: Partial<Record<string, GameRating>>;
+  stats: GameStats[];
+  recentGames: GameResult[];
+  headToHead: HeadToHead[];
+};
+
+const GAME_LABELS: Record<string, string> = {
+  chess: "Cờ vua",
+  xo: "XO",
+  connect4: "Connect Four",
+};
+
+const RESULT_LABELS: Record<ResultPlayer["score"], { label: string; className: string }> = {
+  1: { label: "Thắng", className: "text-emerald-400" },
+  0.5: { label: "Hoà", className: "text-zinc-300" },
+  0: { label: "Thua", className: "text-red-400" },
+};
+
+function decodeName(value: string) {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function winRate(stats: { games: number; wins: number }) {
+  return stats.games ? Math.round((stats.wins / stats.games) * 100) : 0;
+}
+
+export default function PlayerProfilePage() {
+  const params = useParams<{ name: string }>();
+  const name = decodeName(params.name ?? "");
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch(`/api/players/${encodeURIComponent(name)}`)
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data?.error || "Không tải được hồ sơ người chơi");
+        if (!cancelled) setProfile(data);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [name]);
+
+  const nameKey = name.trim().toLowerCase();
+
+  return (
+    <div className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center px-4">
+      <main className="w-full max-w-3xl py-12 flex flex-col gap-6">
+        <header>
+          <Link href="/leaderboard" className="text-xs text-zinc-400 hover:text-emerald-400">
+            ← Bảng xếp hạng
+          </Link>
+          <div className="mt-2 flex items-center gap-3">
+            <span className="flex h-12 w-12 items-center justify-center rounded-full bg-zinc-800 text-2xl">
+              {profile?.player.avatar || "👤"}
+            </span>
+            <div>
+              <h1 className="text-3xl font-bold tracking-tight">{profile?.player.name ?? name}</h1>
+              <p className="text-zinc-400 text-sm">Hồ sơ người chơi</p>
+            </div>
+          </div>
+        </header>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {!profile && !error && <p className="text-sm text-zinc-500">Đang tải...</p>}
+
+        {profile && (
+          <>
+            <section className="grid gap-3 sm:grid-cols-3">
+              {profile.stats.map((s) => (
+                <div
+                  key={s.gameType}
+                  className="rounded-xl border border-zinc-800 bg-zinc-900/60 p-4 flex flex-col gap-1"
+                >
+                  <p className="text-xs uppercase tracking-wide text-zinc-400">
+                    {GAME_LABELS[s.gameType] ?? s.gameType}
+                  </p>
+                  {profile.ratings[s.gameType] && (
+                    <p className="text-2xl font-semibold text-emerald-400">
+                      {profile.ratings[s.gameType]!.rating}
+                      <span className="ml-1 text-xs font-normal text-zinc-500">Elo</span>
+                    </p>
+                  )}
+                  <p className="text-sm text-zinc-300">
+                    {s.wins} thắng · {s.draws} hoà · {s.losses} thua
+                  </p>
+                  <p className="text-xs text-zinc-500">
+                    {s.games} ván · tỉ lệ thắng {winRate(s)}%
+                  </p>
+                </div>
+              ))}
+              {profile.stats.length === 0 && (
+                <p className="text-sm text-zinc-500">Chưa có ván nào được ghi lại.</p>
+              )}
+            </section>
+
+            <section className="rounded-xl border border-zinc-800 bg-zinc-900/60 overflow-hidden">
+              <h2 className="px-4 py-3 text-sm font-semibold border-b border-zinc-800">Ván gần đây</h2>
+              {profile.recentGames.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-zinc-500">Chưa có ván nào.</p>
+              ) : (
+                <ul className="divide-y divide-zinc-800 text-sm">
+                  {profile.recentGames.map((game) => {
+                    const me = game.players.find((p) => p.nameKey === nameKey);
+                    const opponents = game.players.filter((p) => p.nameKey !== nameKey);
+                    const result = me ? RESULT_LABELS[me.score] : null;
+                    return (
+                      <li key={`${game.gameType}:${game.gameId}`} className="px-4 py-2 flex items-center gap-3">
+                        <span className={`w-12 font-semibold ${result?.className ?? ""}`}>
+                          {result?.label ?? "-"}
+                        </span>
+                        <span className="w-24 text-xs text-zinc-400">
+                          {GAME_LABELS[game.gameType] ?? game.gameType}
+                        </span>
+                        <span className="flex-1 truncate">
+                          gặp{" "}
+                          {opponents.map((p, index) => (
+                            <span key={p.nameKey}>
+                              {index > 0 && ", "}
+                              {p.bot ? (
+                                <span className="text-zinc-400">{p.name}</span>
+                              ) : (
+                                <Link
+                                  href={`/players/${encodeURIComponent(p.name)}`}
+                                  className="hover:text-emerald-400"
+                                >
+                                  {p.avatar ? `${p.avatar} ` : ""}
+                                  {p.name}
+                                </Link>
+                              )}
+                            </span>
+                          ))}
+                        </span>
+                        {!game.rated && (
+                          <span className="text-[10px] text-zinc-500">không tính Elo</span>
+                        )}
+                        <span className="text-xs text-zinc-500">
+                          {new Date(game.endedAt).toLocaleDateString("vi-VN")}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </section>
+
+            <section className="rounded-xl border border-zinc-800 bg-zinc-900/60 overflow-hidden">
+              <h2 className="px-4 py-3 text-sm font-semibold border-b border-zinc-800">Đối đầu</h2>
+              {profile.headToHead.length === 0 ? (
+                <p className="px-4 py-6 text-center text-sm text-zinc-500">Chưa gặp đối thủ nào.</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead className="bg-zinc-900 text-xs uppercase tracking-wide text-zinc-400">
+                    <tr>
+                      <th className="px-4 py-2 text-left">Đối thủ</th>
+                      <th className="px-4 py-2 text-right">Số ván</th>
+                      <th className="px-4 py-2 text-right">Thắng / Hoà / Thua</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {profile.headToHead.map((h) => (
+                      <tr key={h.opponent} className="border-t border-zinc-800">
+                        <td className="px-4 py-2 font-medium">
+                          {h.bot ? (
+                            <span className="text-zinc-400">{h.opponent}</span>
+                          ) : (
+                            <Link
+                              href={`/players/${encodeURIComponent(h.opponent)}`}
+                              className="hover:text-emerald-400"
+                            >
+                              {h.opponent}
+                            </Link>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right text-zinc-300">{h.games}</td>
+                        <td className="px-4 py-2 text-right text-zinc-400">
+                          {h.wins} / {h.draws} / {h.losses}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
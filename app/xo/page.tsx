@@ -1,19 +1,52 @@
 "use client";
 
 import { useCallback, useEffect, useRef, useState } from "react";
-import { MQTTClient, type MQTTStatus } from "@/lib/mqtt-client";
+import { MQTTClient, subscribeTopic, type MQTTStatus } from "@/lib/mqtt-client";
+import {
+  clearPlayerToken,
+  loadPlayerToken,
+  roomReadHeaders,
+  savePlayerToken,
+} from "@/lib/player-session";
 
 type Symbol = "X" | "O";
 
-type Player = { name: string; symbol: Symbol; avatar?: string };
+type BotLevel = "easy" | "medium" | "hard";
+
+type Player = { name: string; symbol: Symbol; avatar?: string; bot?: BotLevel };
+
+type Cell = { row: number; col: number };
+
+type RoomVisibility = "public" | "unlisted" | "password";
+
+// Mật khẩu nhập tay hoặc chữ ký trong link mời, dùng khi vào phòng có mật khẩu
+type RoomAccess = { password?: string; invite?: string };
+
+const VISIBILITY_LABELS: Record<RoomVisibility, string> = {
+  public: "Công khai",
+  unlisted: "Chỉ vào bằng mã",
+  password: "Có mật khẩu",
+};
+
+type OpenRoom = { roomId: string; players: Player[]; updatedAt: string | null; status: string };
 
 type RoomState = {
   roomId: string;
   players: Player[];
+  hostName?: string | null;
+  spectators?: { name: string }[];
   board?: (string | null)[][];
+  boardSize?: number;
+  winLength?: number;
+  blockedEnds?: boolean;
   turn?: Symbol;
   roundIndex?: number;
   winner?: Symbol | "draw" | null;
+  winningLine?: Cell[];
+  lastMove?: Cell;
+  moves?: { row: number; col: number; symbol: Symbol }[];
+  undoRequest?: { by: Symbol; plies: number };
+  version?: number;
   updatedAt?: string;
 };
 
@@ -35,8 +68,53 @@ type SocketPayload =
       type: "reset";
       room: RoomState | null;
       clientId?: string;
+    }
+  | {
+      type: UndoMessage;
+      room: RoomState | null;
+      playerName: string;
+      clientId?: string;
+    }
+  | {
+      type: "leave";
+      room: RoomState | null;
+      playerName: string;
+      reason: SeatRelease;
+      clientId?: string;
     };
 
+type UndoAction = "request-undo" | "accept-undo" | "decline-undo";
+type UndoMessage = "undo-request" | "undo-accept" | "undo-decline";
+
+const UNDO_MESSAGES: Record<UndoAction, UndoMessage> = {
+  "request-undo": "undo-request",
+  "accept-undo": "undo-accept",
+  "decline-undo": "undo-decline",
+};
+
+const BOT_LEVEL_LABELS: Record<BotLevel, string> = {
+  easy: "Dễ (đánh ngẫu nhiên)",
+  medium: "Vừa (chặn và nối chuỗi)",
+  hard: "Khó (tính trước nhiều nước)",
+};
+
+const UNDO_NOTICES: Record<UndoMessage, string> = {
+  "undo-request": "xin đi lại.",
+  "undo-accept": "đồng ý cho đi lại.",
+  "undo-decline": "từ chối cho đi lại.",
+};
+
+type SeatRelease = "leave" | "kick" | "timeout";
+
+const SEAT_RELEASE_NOTICES: Record<SeatRelease, string> = {
+  leave: "đã rời phòng.",
+  kick: "đã bị chủ phòng mời ra.",
+  timeout: "mất kết nối quá lâu, ghế đã được nhả.",
+};
+
+// Báo server còn kết nối để giữ ghế (server nhả ghế sau 2 phút không có tin)
+const HEARTBEAT_INTERVAL_MS = 20000;
+
 const randomWordsA = ["Sáng", "Đêm", "Lửa", "Gió", "Biển", "Trăng", "Mây"];
 const randomWordsB = ["X", "O", "Tic", "Tac", "Toe", "Game"];
 
@@ -59,6 +137,22 @@ const INITIAL_BOARD: (string | null)[][] = [
   [null, null, null],
 ];
 
+const MIN_BOARD_SIZE = 3;
+const MAX_BOARD_SIZE = 19;
+
+function describeRules(room: RoomState) {
+  const size = room.board?.length ?? room.boardSize ?? MIN_BOARD_SIZE;
+  const winLength = room.winLength ?? 3;
+  return `${size}x${size} · ${winLength} quân liên tiếp${room.blockedEnds ? " · chặn hai đầu" : ""}`;
+}
+
+// Phòng có mật khẩu mà chưa có link mời: hỏi mật khẩu, null nếu người dùng bỏ qua
+function askRoomPassword(retry: boolean) {
+  return window.prompt(
+    retry ? "Sai mật khẩu, nhập lại:" : "Phòng có mật khẩu. Nhập mật khẩu để vào:"
+  );
+}
+
 export default function XOPage() {
   const [playerName, setPlayerName] = useState(() => generateRandomName());
   const [storedNameLoaded, setStoredNameLoaded] = useState(false);
@@ -71,13 +165,24 @@ export default function XOPage() {
     INITIAL_BOARD.map((row) => [...row])
   );
   const [roomState, setRoomState] = useState<RoomState | null>(null);
+  // Cấu hình bàn cho phòng mới: 3x3 cổ điển hoặc caro tới 19x19
+  const [boardSizeOption, setBoardSizeOption] = useState(MIN_BOARD_SIZE);
+  const [winLengthOption, setWinLengthOption] = useState<3 | 5>(3);
+  const [blockedEndsOption, setBlockedEndsOption] = useState(false);
+  const [botLevel, setBotLevel] = useState<BotLevel>("medium");
   const [gameStatus, setGameStatus] = useState("Đang chờ tạo phòng...");
   const [isSyncing, setIsSyncing] = useState(false);
   const [copiedRoomId, setCopiedRoomId] = useState(false);
   const [mqttStatus, setMqttStatus] = useState<MQTTStatus>("closed");
-  const [onlineClients, setOnlineClients] = useState<Set<string>>(new Set());
+  // clientId -> tên người dùng, để phân biệt người chơi với người xem
+  const [onlineClients, setOnlineClients] = useState<Map<string, string>>(new Map());
   const [inviteUrl, setInviteUrl] = useState("");
   const [copiedInviteUrl, setCopiedInviteUrl] = useState(false);
+  const [openRooms, setOpenRooms] = useState<OpenRoom[]>([]);
+  const [visibility, setVisibility] = useState<RoomVisibility>("public");
+  const [roomPassword, setRoomPassword] = useState("");
+  // Chữ ký link mời của phòng có mật khẩu, người cầm link vào không cần mật khẩu
+  const [roomInvite, setRoomInvite] = useState("");
 
   const mqttClientRef = useRef<MQTTClient | null>(null);
   const autoCreateRef = useRef(false);
@@ -89,8 +194,26 @@ export default function XOPage() {
   );
 
   const canPlay = Boolean(playerName && currentRoomId);
-  // Lock dựa trên số clients MQTT đang online, không phải players trong DB
-  const isLocked = onlineClients.size >= 2;
+  const isSpectator = Boolean(
+    roomState &&
+      !roomState.players?.some((p) => normalize(p.name) === normalize(playerName)) &&
+      roomState.spectators?.some((p) => normalize(p.name) === normalize(playerName))
+  );
+  // Lock dựa trên số người chơi (có ghế trong DB) đang online qua MQTT, không tính người xem;
+  // máy luôn được tính là online
+  const onlineSeatedCount =
+    [...onlineClients.values()].filter((name) =>
+      roomState?.players?.some((p) => !p.bot && normalize(p.name) === normalize(name))
+    ).length + (roomState?.players?.filter((p) => p.bot).length ?? 0);
+  const isLocked = onlineSeatedCount >= 2;
+  const isSeated = Boolean(
+    roomState?.players?.some((p) => normalize(p.name) === normalize(playerName))
+  );
+  // Phòng cũ chưa lưu chủ phòng thì lấy người thật vào đầu tiên, giống server
+  const hostName =
+    roomState?.hostName ?? roomState?.players?.find((p) => !p.bot)?.name ?? null;
+  const isHost = Boolean(hostName && normalize(hostName) === normalize(playerName));
+  const spectatorCount = roomState?.spectators?.length ?? 0;
 
   useEffect(() => {
     if (typeof window === "undefined") return;
@@ -116,15 +239,37 @@ export default function XOPage() {
         if (!options?.auto) alert("Nhập tên người chơi trước khi tạo phòng.");
         return;
       }
+      if (visibility === "password" && !roomPassword) {
+        if (!options?.auto) alert("Nhập mật khẩu cho phòng.");
+        return;
+      }
       const roomId = generateRoomCode();
       setIsSyncing(true);
       try {
         const res = await fetch("/api/xo/room", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "create", playerName, roomId }),
+          body: JSON.stringify({
+            action: "create",
+            playerName,
+            roomId,
+            boardSize: boardSizeOption,
+            winLength: winLengthOption,
+            blockedEnds: blockedEndsOption,
+            visibility,
+            ...(visibility === "password" && { password: roomPassword }),
+          }),
         });
-        const data: { roomId: string; room?: RoomState | null } = await res.json();
+        const data: {
+          roomId: string;
+          room?: RoomState | null;
+          token?: string;
+          invite?: string;
+          error?: string;
+        } = await res.json();
+        if (!res.ok) throw new Error(data.error || "Không tạo được phòng");
+        if (data.token) savePlayerToken("xo", data.roomId, data.token);
+        setRoomInvite(data.invite ?? "");
         setCurrentRoomId(data.roomId);
         setInputRoomId(data.roomId);
         hydrateFromRoom(data.room ?? null);
@@ -132,7 +277,7 @@ export default function XOPage() {
       } catch (err) {
         if (!options?.auto) {
           console.error(err);
-          alert("Không tạo được phòng, thử lại nhé.");
+          alert(err instanceof Error ? err.message : "Không tạo được phòng, thử lại nhé.");
         }
         setBoard(INITIAL_BOARD.map((row) => [...row]));
         setTurn("X");
@@ -141,7 +286,7 @@ export default function XOPage() {
         setIsSyncing(false);
       }
     },
-    [playerName]
+    [playerName, boardSizeOption, winLengthOption, blockedEndsOption, visibility, roomPassword]
   );
 
   useEffect(() => {
@@ -160,7 +305,7 @@ export default function XOPage() {
         setMqttStatus(status);
         // Khi connected, publish presence và thêm mình vào online clients
         if (status === "connected" && mqttClientRef.current) {
-          setOnlineClients((prev) => new Set([...prev, clientIdRef.current]));
+          setOnlineClients((prev) => new Map(prev).set(clientIdRef.current, playerName));
           // Publish presence để các clients khác biết
           mqttClientRef.current.publish("presence", {
             playerName,
@@ -170,7 +315,7 @@ export default function XOPage() {
         } else if (status === "closed" || status === "error") {
           // Remove self khi disconnect
           setOnlineClients((prev) => {
-            const next = new Set(prev);
+            const next = new Map(prev);
             next.delete(clientIdRef.current);
             return next;
           });
@@ -199,7 +344,7 @@ export default function XOPage() {
         }
         mqttClientRef.current.disconnect();
       }
-      setOnlineClients(new Set());
+      setOnlineClients(new Map());
     };
   }, [currentRoomId, playerName, mqttStatus]);
 
@@ -216,10 +361,12 @@ export default function XOPage() {
     if (message.type === "presence" && message.clientId) {
       const action = message.action as string;
       if (action === "connect") {
-        setOnlineClients((prev) => new Set([...prev, message.clientId as string]));
+        setOnlineClients((prev) =>
+          new Map(prev).set(message.clientId as string, String(message.playerName ?? ""))
+        );
       } else if (action === "disconnect") {
         setOnlineClients((prev) => {
-          const next = new Set(prev);
+          const next = new Map(prev);
           next.delete(message.clientId as string);
           return next;
         });
@@ -230,7 +377,7 @@ export default function XOPage() {
     // Handle disconnect từ last will (khi client disconnect đột ngột)
     if (message.type === "disconnect" && message.clientId) {
       setOnlineClients((prev) => {
-        const next = new Set(prev);
+        const next = new Map(prev);
         next.delete(message.clientId as string);
         return next;
       });
@@ -250,6 +397,32 @@ export default function XOPage() {
     if (typedMessage.type === "reset" && "room" in typedMessage) {
       hydrateFromRoom(typedMessage.room ?? null);
     }
+
+    // Server báo có người rời phòng / bị mời ra / bị nhả ghế; ván hiện tại đã được kết thúc
+    if (typedMessage.type === "leave" && "reason" in typedMessage) {
+      if (normalize(typedMessage.playerName) === normalize(playerName)) {
+        // Tự rời thì handleLeaveRoom đã xử lý
+        if (typedMessage.reason === "leave") return;
+        clearPlayerToken("xo", typedMessage.room?.roomId ?? currentRoomId);
+        hydrateFromRoom(typedMessage.room ?? null);
+        setGameStatus(
+          typedMessage.reason === "kick"
+            ? "Bạn đã bị chủ phòng mời ra. Hãy tạo hoặc vào phòng khác."
+            : "Bạn đã mất ghế do mất kết nối quá lâu. Hãy vào lại phòng."
+        );
+        return;
+      }
+      hydrateFromRoom(typedMessage.room ?? null);
+      setGameStatus(`${typedMessage.playerName} ${SEAT_RELEASE_NOTICES[typedMessage.reason]}`);
+      return;
+    }
+
+    if (typedMessage.type in UNDO_NOTICES && "playerName" in typedMessage) {
+      syncRoomState(typedMessage.room ?? null);
+      setGameStatus(
+        `${typedMessage.playerName} ${UNDO_NOTICES[typedMessage.type as UndoMessage]}`
+      );
+    }
   }
 
   function syncRoomState(room: RoomState | null) {
@@ -296,12 +469,12 @@ export default function XOPage() {
     }
   }
 
-  async function handleJoinRoom() {
+  async function handleJoinRoom(explicitRoomId?: string, access: RoomAccess = {}) {
     if (!playerName) {
       alert("Nhập tên người chơi trước khi vào phòng.");
       return;
     }
-    const raw = inputRoomId.trim();
+    const raw = (explicitRoomId ?? inputRoomId).trim();
     if (!raw) {
       alert("Nhập mã phòng để vào.");
       return;
@@ -313,13 +486,34 @@ export default function XOPage() {
       const res = await fetch("/api/xo/room", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "join", playerName, roomId }),
+        body: JSON.stringify({
+          action: "join",
+          playerName,
+          roomId,
+          token: loadPlayerToken("xo", roomId),
+          ...access,
+        }),
       });
+      if (res.status === 403) {
+        // Phòng đủ người: cho phép vào xem thay vì chặn hẳn
+        if (window.confirm("Phòng đã đủ người chơi. Vào xem ván đấu?")) {
+          await handleSpectateRoom(roomId, access);
+        }
+        return;
+      }
       if (!res.ok) {
         const payload = await res.json().catch(() => ({}));
+        if (payload.passwordRequired) {
+          const password = askRoomPassword(Boolean(access.password));
+          if (password) await handleJoinRoom(roomId, { password });
+          return;
+        }
         throw new Error(payload.error || "Không vào được phòng");
       }
-      const data: { roomId: string; room?: RoomState | null } = await res.json();
+      const data: { roomId: string; room?: RoomState | null; token?: string; invite?: string } =
+        await res.json();
+      if (data.token) savePlayerToken("xo", data.roomId, data.token);
+      setRoomInvite(data.invite ?? "");
       setCurrentRoomId(data.roomId);
       hydrateFromRoom(data.room ?? null);
       emitMQTTMessage("room", { room: data.room ?? null });
@@ -330,12 +524,56 @@ export default function XOPage() {
     }
   }
 
+  async function handleSpectateRoom(roomIdOverride?: string, access: RoomAccess = {}) {
+    if (!playerName) {
+      alert("Nhập tên trước khi vào xem.");
+      return;
+    }
+    const roomId = (roomIdOverride ?? inputRoomId).trim().toUpperCase();
+    if (!roomId) {
+      alert("Nhập mã phòng để vào xem.");
+      return;
+    }
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/xo/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "spectate", playerName, roomId, ...access }),
+      });
+      if (!res.ok) {
+        const payload = await res.json().catch(() => ({}));
+        if (payload.passwordRequired) {
+          const password = askRoomPassword(Boolean(access.password));
+          if (password) await handleSpectateRoom(roomId, { password });
+          return;
+        }
+        throw new Error(payload.error || "Không vào xem được phòng");
+      }
+      const data: { roomId: string; room?: RoomState | null; invite?: string } = await res.json();
+      setRoomInvite(data.invite ?? "");
+      setCurrentRoomId(data.roomId);
+      hydrateFromRoom(data.room ?? null);
+      emitMQTTMessage("room", { room: data.room ?? null });
+    } catch (err) {
+      alert(err instanceof Error && err.message ? err.message : "Không vào xem được phòng, thử lại sau.");
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
   async function handleCellClick(row: number, col: number) {
     if (!canPlay) {
       alert("Hãy tạo hoặc vào phòng trước khi chơi.");
       return;
     }
 
+    if (isSpectator) {
+      setGameStatus("Bạn đang xem, không thể đánh.");
+      return;
+    }
+
     if (board[row][col] !== null) {
       setGameStatus("Ô này đã được đánh!");
       return;
@@ -361,9 +599,15 @@ export default function XOPage() {
           roomId: currentRoomId,
           row,
           col,
-          playerName,
+          token: loadPlayerToken("xo", currentRoomId),
         }),
       });
+      if (res.status === 409) {
+        // Đối thủ vừa cập nhật phòng: tải lại trạng thái mới nhất rồi đánh lại
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
       if (!res.ok) {
         const payload = await res.json().catch(() => ({}));
         throw new Error(payload.error || "Không thể thực hiện nước đi");
@@ -385,6 +629,165 @@ export default function XOPage() {
     }
   }
 
+  async function reloadRoom() {
+    if (!currentRoomId) return;
+    try {
+      const res = await fetch(`/api/xo/room?roomId=${currentRoomId}`, {
+        headers: roomReadHeaders("xo", currentRoomId, roomInvite),
+      });
+      if (!res.ok) return;
+      const data: { room?: RoomState | null } = await res.json();
+      if (data.room) hydrateFromRoom(data.room);
+    } catch {
+      // ignore
+    }
+  }
+
+  // Xếp máy vào ghế còn trống, server tự đánh thay máy sau mỗi nước của mình
+  async function handleAddBot() {
+    if (!currentRoomId) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/xo/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "add-bot",
+          roomId: currentRoomId,
+          level: botLevel,
+          token: loadPlayerToken("xo", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không thêm được máy, thử lại sau.");
+        return;
+      }
+      syncRoomState(data.room ?? null);
+      emitMQTTMessage("room", { room: data.room ?? null });
+    } catch {
+      // ignore
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  async function sendUndoAction(action: UndoAction) {
+    if (!currentRoomId) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/xo/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action,
+          roomId: currentRoomId,
+          token: loadPlayerToken("xo", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không thực hiện được, thử lại sau.");
+        return;
+      }
+      syncRoomState(data.room ?? null);
+      emitMQTTMessage(UNDO_MESSAGES[action], { room: data.room ?? null, playerName });
+    } catch {
+      // ignore
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
+  // Rời phòng: nhả ghế cho người khác (ván dang dở bị xử thua) hoặc thôi xem, rồi tạo phòng mới cho mình
+  async function handleLeaveRoom() {
+    if (!currentRoomId) return;
+    const inProgress = !roomState?.winner && (roomState?.moves?.length ?? 0) > 0;
+    const confirmLeave = window.confirm(
+      inProgress && isSeated ? "Rời phòng khi ván chưa xong sẽ bị xử thua. Vẫn rời?" : "Rời phòng này?"
+    );
+    if (!confirmLeave) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/xo/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "leave",
+          roomId: currentRoomId,
+          // Người xem không có token, server nhận theo tên
+          playerName,
+          token: loadPlayerToken("xo", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không rời được phòng, thử lại sau.");
+        return;
+      }
+      clearPlayerToken("xo", currentRoomId);
+    } catch {
+      return;
+    } finally {
+      setIsSyncing(false);
+    }
+    await handleCreateRoom();
+  }
+
+  // Chủ phòng mời người chơi khác (hoặc máy) ra để nhả ghế
+  async function handleKickPlayer(target: string) {
+    if (!currentRoomId) return;
+    if (!window.confirm(`Mời ${target} ra khỏi phòng?`)) return;
+
+    setIsSyncing(true);
+    try {
+      const res = await fetch("/api/xo/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          action: "kick",
+          roomId: currentRoomId,
+          target,
+          token: loadPlayerToken("xo", currentRoomId),
+        }),
+      });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
+      const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không mời ra được, thử lại sau.");
+        return;
+      }
+      hydrateFromRoom(data.room ?? null);
+      setGameStatus(`${target} ${SEAT_RELEASE_NOTICES.kick}`);
+    } catch {
+      // ignore
+    } finally {
+      setIsSyncing(false);
+    }
+  }
+
   async function handleEndGame() {
     if (!currentRoomId) {
       setBoard(INITIAL_BOARD.map((row) => [...row]));
@@ -401,9 +804,22 @@ export default function XOPage() {
       const res = await fetch("/api/xo/room", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "finish", roomId: currentRoomId }),
+        body: JSON.stringify({
+          action: "finish",
+          roomId: currentRoomId,
+          token: loadPlayerToken("xo", currentRoomId),
+        }),
       });
+      if (res.status === 409) {
+        await reloadRoom();
+        setGameStatus("Bàn chơi vừa thay đổi, hãy thử lại.");
+        return;
+      }
       const data = await res.json();
+      if (!res.ok) {
+        setGameStatus(data?.error || "Không kết thúc được ván, thử lại sau.");
+        return;
+      }
       hydrateFromRoom(data?.room ?? null);
       emitMQTTMessage("reset", { room: data?.room ?? null });
     } catch {
@@ -441,8 +857,10 @@ export default function XOPage() {
     if (typeof window === "undefined" || !currentRoomId) return;
     const url = new URL(window.location.href);
     url.searchParams.set("roomId", currentRoomId);
+    if (roomInvite) url.searchParams.set("invite", roomInvite);
+    else url.searchParams.delete("invite");
     setInviteUrl(url.toString());
-  }, [currentRoomId]);
+  }, [currentRoomId, roomInvite]);
 
   useEffect(() => {
     if (typeof window === "undefined" || autoJoinRef.current) return;
@@ -451,7 +869,10 @@ export default function XOPage() {
     if (!roomIdFromUrl) return;
     autoJoinRef.current = true;
     setInputRoomId(roomIdFromUrl.toUpperCase());
-    handleJoinRoom();
+    // Link mời phòng có mật khẩu kèm ?invite= thì vào thẳng, không hỏi mật khẩu
+    handleJoinRoom(roomIdFromUrl.toUpperCase(), {
+      invite: url.searchParams.get("invite") ?? undefined,
+    });
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
@@ -461,7 +882,74 @@ export default function XOPage() {
     }
   }, [roomState]);
 
+  // Heartbeat giữ ghế (người xem gửi theo tên để còn được tính là đang xem); server cũng
+  // nhả ghế của đối thủ đã mất kết nối và báo qua MQTT
+  useEffect(() => {
+    if (!currentRoomId || !playerName) return;
+    const roomId = currentRoomId;
+    let cancelled = false;
+    const beat = () => {
+      const token = loadPlayerToken("xo", roomId);
+      fetch("/api/xo/room", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ action: "heartbeat", roomId, ...(token ? { token } : { playerName }) }),
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((data: { room?: RoomState | null } | null) => {
+          const spectators = data?.room?.spectators;
+          if (cancelled || !spectators) return;
+          // Chỉ lấy danh sách người xem (đã bỏ người rời đi), ván vẫn đồng bộ qua MQTT / polling
+          setRoomState((prev) => (prev?.roomId === roomId ? { ...prev, spectators } : prev));
+        })
+        .catch(() => {
+          // ignore, lần sau gửi lại
+        });
+    };
+    beat();
+    const id = window.setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      window.clearInterval(id);
+    };
+  }, [currentRoomId, playerName]);
+
+  // Phòng XO đang chờ đối thủ: tải một lần rồi cập nhật theo tin sảnh chờ qua MQTT
+  useEffect(() => {
+    let cancelled = false;
+    fetch("/api/rooms?gameType=xo&status=waiting&limit=20")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { rooms?: OpenRoom[] } | null) => {
+        if (!cancelled && data?.rooms) setOpenRooms(data.rooms);
+      })
+      .catch(() => {
+        // ignore
+      });
+
+    const unsubscribe = subscribeTopic("lobby/xo/room", (message) => {
+      const room = message.room as OpenRoom | undefined;
+      if (!room?.roomId || cancelled) return;
+      setOpenRooms((prev) => {
+        const others = prev.filter((r) => r.roomId !== room.roomId);
+        return room.status === "waiting" ? [room, ...others].slice(0, 20) : others;
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
   const opponent = roomState?.players?.find((p) => normalize(p.name) !== normalize(playerName));
+  const opponentSymbol: Symbol = playerSymbol === "X" ? "O" : "X";
+  const boardSize = board.length;
+  // Phòng cũ chưa lưu lastMove thì lấy nước cuối trong lịch sử
+  const lastMove = roomState?.lastMove ?? roomState?.moves?.[roomState.moves.length - 1] ?? null;
+  const winningCells = new Set(
+    (roomState?.winner ? roomState.winningLine ?? [] : []).map((c) => `${c.row}-${c.col}`)
+  );
+  // Bàn 3x3 giữ ô lớn như cũ, bàn caro dùng ô nhỏ và cuộn khi vượt màn hình
+  const isClassic = boardSize <= MIN_BOARD_SIZE;
 
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-50 flex items-center justify-center px-4">
@@ -500,6 +988,77 @@ export default function XOPage() {
             />
           </div>
 
+          <div className="col-span-2 flex flex-wrap items-end gap-3 text-xs text-zinc-400">
+            <label className="space-y-1">
+              <span className="block">Kích thước bàn (phòng mới)</span>
+              <input
+                type="number"
+                min={MIN_BOARD_SIZE}
+                max={MAX_BOARD_SIZE}
+                value={boardSizeOption}
+                onChange={(e) => {
+                  const size = Math.min(
+                    MAX_BOARD_SIZE,
+                    Math.max(MIN_BOARD_SIZE, Number(e.target.value) || MIN_BOARD_SIZE)
+                  );
+                  setBoardSizeOption(size);
+                  if (size < 5) setWinLengthOption(3);
+                }}
+                className="w-20 rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm text-zinc-50 outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="block">Thắng khi đủ</span>
+              <select
+                value={winLengthOption}
+                onChange={(e) => setWinLengthOption(Number(e.target.value) === 5 ? 5 : 3)}
+                className="rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm text-zinc-50 outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                <option value={3}>3 quân</option>
+                <option value={5} disabled={boardSizeOption < 5}>
+                  5 quân (caro)
+                </option>
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span className="block">Chế độ phòng</span>
+              <select
+                value={visibility}
+                onChange={(e) => setVisibility(e.target.value as RoomVisibility)}
+                className="rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm text-zinc-50 outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {(Object.keys(VISIBILITY_LABELS) as RoomVisibility[]).map((v) => (
+                  <option key={v} value={v}>
+                    {VISIBILITY_LABELS[v]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {visibility === "password" && (
+              <label className="space-y-1">
+                <span className="block">Mật khẩu</span>
+                <input
+                  type="password"
+                  value={roomPassword}
+                  onChange={(e) => setRoomPassword(e.target.value)}
+                  placeholder="4-64 ký tự"
+                  className="w-32 rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm text-zinc-50 outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+              </label>
+            )}
+            {winLengthOption === 5 && (
+              <label className="flex items-center gap-2 py-1.5">
+                <input
+                  type="checkbox"
+                  checked={blockedEndsOption}
+                  onChange={(e) => setBlockedEndsOption(e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                <span>Chặn hai đầu không tính thắng</span>
+              </label>
+            )}
+          </div>
+
           <div className="flex gap-2 col-span-2">
             <button
               onClick={() => handleCreateRoom()}
@@ -511,7 +1070,7 @@ export default function XOPage() {
               Tạo phòng mới
             </button>
             <button
-              onClick={handleJoinRoom}
+              onClick={() => handleJoinRoom()}
               disabled={isSyncing}
               className={`flex-1 rounded-md border border-zinc-700 text-sm font-medium py-2 transition-colors ${
                 isSyncing ? "text-zinc-500 cursor-not-allowed" : "hover:bg-zinc-800"
@@ -519,17 +1078,92 @@ export default function XOPage() {
             >
               Vào phòng bằng mã
             </button>
+            <button
+              onClick={() => handleSpectateRoom()}
+              disabled={isSyncing}
+              className={`rounded-md border border-zinc-700 px-3 text-sm font-medium py-2 transition-colors ${
+                isSyncing ? "text-zinc-500 cursor-not-allowed" : "hover:bg-zinc-800"
+              }`}
+            >
+              Vào xem
+            </button>
           </div>
 
-          <button
-            onClick={handleEndGame}
-            disabled={isSyncing}
-            className={`col-span-2 rounded-md text-sm font-medium py-2 border transition-colors ${
-              isSyncing ? "border-zinc-800 text-zinc-500 cursor-wait" : "border-red-500 text-red-400 hover:bg-red-500/10"
-            }`}
-          >
-            Kết thúc ván / đổi ký hiệu
-          </button>
+          {isSpectator && (
+            <div className="col-span-2 rounded-md border border-sky-500/40 bg-sky-500/10 px-3 py-2 text-xs text-sky-200">
+              Bạn đang xem ván đấu, bàn chơi chỉ đọc.
+            </div>
+          )}
+
+          {!isSpectator && roomState && roomState.players.length < 2 && (
+            <div className="col-span-2 flex items-center gap-2 text-xs">
+              <span className="text-zinc-400">Chơi với máy:</span>
+              <select
+                value={botLevel}
+                onChange={(e) => setBotLevel(e.target.value as BotLevel)}
+                className="flex-1 rounded-md bg-zinc-950 border border-zinc-700 px-2 py-1.5 text-sm outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {(Object.keys(BOT_LEVEL_LABELS) as BotLevel[]).map((level) => (
+                  <option key={level} value={level}>
+                    {BOT_LEVEL_LABELS[level]}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={handleAddBot}
+                disabled={isSyncing}
+                className="rounded-md border border-emerald-500 px-3 py-1.5 font-medium text-emerald-400 hover:bg-emerald-500/10 disabled:opacity-50"
+              >
+                Thêm máy
+              </button>
+            </div>
+          )}
+
+          {!isSpectator && roomState && !roomState.winner && (roomState.moves?.length ?? 0) > 0 && (
+            <button
+              onClick={() => sendUndoAction("request-undo")}
+              disabled={isSyncing || Boolean(roomState.undoRequest)}
+              className="col-span-2 rounded-md border border-zinc-700 text-xs font-medium py-2 hover:bg-zinc-800 disabled:opacity-50"
+            >
+              {roomState.undoRequest?.by === playerSymbol ? "Đã xin đi lại" : "Xin đi lại"}
+            </button>
+          )}
+
+          {!isSpectator && roomState && !roomState.winner && roomState.undoRequest?.by === opponentSymbol && (
+            <div className="col-span-2 flex items-center justify-between gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-200">
+              <span>
+                {opponent?.name ?? "Đối thủ"} xin đi lại {roomState.undoRequest.plies} nước.
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => sendUndoAction("accept-undo")}
+                  disabled={isSyncing}
+                  className="rounded-md border border-emerald-500 px-2 py-1 text-emerald-400 hover:bg-emerald-500/10"
+                >
+                  Đồng ý
+                </button>
+                <button
+                  onClick={() => sendUndoAction("decline-undo")}
+                  disabled={isSyncing}
+                  className="rounded-md border border-zinc-700 px-2 py-1 hover:bg-zinc-800"
+                >
+                  Từ chối
+                </button>
+              </div>
+            </div>
+          )}
+
+          {!isSpectator && (
+            <button
+              onClick={handleEndGame}
+              disabled={isSyncing}
+              className={`col-span-2 rounded-md text-sm font-medium py-2 border transition-colors ${
+                isSyncing ? "border-zinc-800 text-zinc-500 cursor-wait" : "border-red-500 text-red-400 hover:bg-red-500/10"
+              }`}
+            >
+              Kết thúc ván / đổi ký hiệu
+            </button>
+          )}
 
           <div className="col-span-2 flex flex-wrap items-center justify-between gap-3 text-xs text-zinc-400">
             <div className="flex items-center gap-2">
@@ -544,6 +1178,15 @@ export default function XOPage() {
                     Copy
                   </button>
                   {copiedRoomId && <span className="text-emerald-400 text-[10px]">Đã copy</span>}
+                  {(isSeated || isSpectator) && (
+                    <button
+                      onClick={handleLeaveRoom}
+                      disabled={isSyncing}
+                      className="rounded-full border border-zinc-700 px-2 py-1 text-[10px] uppercase tracking-wide hover:border-red-500 hover:text-red-400 disabled:opacity-50"
+                    >
+                      Rời phòng
+                    </button>
+                  )}
                 </>
               ) : (
                 <span>Chưa có</span>
@@ -557,16 +1200,49 @@ export default function XOPage() {
                 Lượt đi: <span className="text-emerald-400 font-semibold">{turn}</span>
               </span>
               <span>
-                Bạn cầm: <span className="text-emerald-400 font-semibold">{playerSymbol}</span>
+                Bạn cầm:{" "}
+                <span className="text-emerald-400 font-semibold">
+                  {isSpectator ? "Người xem" : playerSymbol}
+                </span>
               </span>
+              {spectatorCount > 0 && (
+                <span>
+                  Người xem: <span className="text-sky-400 font-semibold">{spectatorCount}</span>
+                </span>
+              )}
             </div>
           </div>
 
-          {isLocked && opponent && (
+          {isSpectator && roomState && roomState.players.length > 0 && (
             <div className="col-span-2 text-xs text-zinc-300">
+              <span>Đang chơi: </span>
+              {roomState.players.map((p, index) => (
+                <span key={p.name}>
+                  {index > 0 && <span className="text-zinc-500"> vs </span>}
+                  <span className="font-semibold text-emerald-400">{p.name}</span>
+                  <span className="text-zinc-500 ml-1">({p.symbol})</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          {!isSpectator && (isLocked || isHost) && opponent && (
+            <div className="col-span-2 flex items-center text-xs text-zinc-300">
               <span>Đối thủ: </span>
-              <span className="font-semibold text-emerald-400">{opponent.name}</span>
+              <span className="font-semibold text-emerald-400 ml-1">{opponent.name}</span>
               <span className="text-zinc-500 ml-2">({opponent.symbol})</span>
+              {hostName && normalize(hostName) === normalize(opponent.name) && (
+                <span className="text-zinc-500 ml-2">· chủ phòng</span>
+              )}
+              {isHost && (
+                <button
+                  onClick={() => handleKickPlayer(opponent.name)}
+                  disabled={isSyncing}
+                  className="ml-3 rounded-full border border-zinc-700 px-2 py-0.5 text-[10px] hover:border-red-500 hover:text-red-400 disabled:opacity-50"
+                >
+                  Mời ra
+                </button>
+              )}
             </div>
           )}
 
@@ -595,35 +1271,84 @@ export default function XOPage() {
               </div>
             </div>
           )}
+
+          <div className="col-span-2 space-y-2 text-xs">
+            <span className="text-zinc-400">Phòng đang chờ đối thủ:</span>
+            {openRooms.filter((room) => room.roomId !== currentRoomId).length === 0 ? (
+              <p className="text-[11px] text-zinc-500">Chưa có phòng nào đang chờ.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {openRooms
+                  .filter((room) => room.roomId !== currentRoomId)
+                  .map((room) => (
+                    <button
+                      key={room.roomId}
+                      type="button"
+                      onClick={() => {
+                        setInputRoomId(room.roomId);
+                        handleJoinRoom(room.roomId);
+                      }}
+                      disabled={isSyncing}
+                      className="flex items-center gap-2 rounded-md border border-zinc-700 px-2 py-1 hover:border-emerald-500 disabled:opacity-50"
+                    >
+                      <span>{room.players.map((p) => p.name).join(", ")}</span>
+                      <span className="font-mono text-emerald-400">{room.roomId}</span>
+                    </button>
+                  ))}
+              </div>
+            )}
+          </div>
         </div>
 
         <div className="space-y-4">
           <div className="flex items-center justify-between text-xs uppercase tracking-wide text-zinc-400">
             <span>Trạng thái: {gameStatus}</span>
           </div>
-          <div className="flex justify-center">
-            <div className="grid grid-cols-3 gap-2 border-4 border-zinc-800 rounded-xl p-2 bg-zinc-900">
-              {Array.from({ length: 3 }).map((_, row) =>
-                Array.from({ length: 3 }).map((__, col) => {
-                  const cell = board[row][col];
-                  const isWinning = roomState?.winner && cell === roomState.winner;
+          {roomState && (
+            <p className="text-[11px] text-zinc-500">Luật: {describeRules(roomState)}</p>
+          )}
+          <div className="flex justify-center overflow-auto max-h-[75vh]">
+            <div
+              className={`grid border-4 border-zinc-800 rounded-xl p-2 bg-zinc-900 ${
+                isClassic ? "gap-2" : "gap-0.5"
+              }`}
+              style={{ gridTemplateColumns: `repeat(${boardSize}, minmax(0, 1fr))` }}
+            >
+              {board.map((cells, row) =>
+                cells.map((cell, col) => {
+                  const isWinning = winningCells.has(`${row}-${col}`);
+                  const isLast = lastMove?.row === row && lastMove?.col === col;
+                  const isDisabled =
+                    isSyncing ||
+                    isSpectator ||
+                    cell !== null ||
+                    turn !== playerSymbol ||
+                    !!roomState?.winner;
 
                   return (
                     <button
                       key={`${row}-${col}`}
                       onClick={() => handleCellClick(row, col)}
-                      disabled={isSyncing || cell !== null || turn !== playerSymbol || !!roomState?.winner}
-                      className={`aspect-square w-20 md:w-24 lg:w-28 flex items-center justify-center text-4xl md:text-5xl lg:text-6xl font-bold rounded-md border-2 transition-colors ${
+                      disabled={isDisabled}
+                      className={`aspect-square flex items-center justify-center font-bold border-2 transition-colors ${
+                        isClassic
+                          ? "w-20 md:w-24 lg:w-28 text-4xl md:text-5xl lg:text-6xl rounded-md"
+                          : "w-7 md:w-8 text-sm md:text-base rounded-sm"
+                      } ${
                         cell === "X"
                           ? "bg-blue-500/20 border-blue-500 text-blue-400"
                           : cell === "O"
                           ? "bg-red-500/20 border-red-500 text-red-400"
                           : "bg-zinc-800 border-zinc-700 hover:bg-zinc-700 hover:border-zinc-600"
                       } ${
-                        isWinning ? "ring-4 ring-emerald-400" : ""
+                        isWinning
+                          ? "ring-4 ring-emerald-400"
+                          : isLast
+                          ? "ring-2 ring-amber-400"
+                          : ""
                       } ${
-                        isSyncing || cell !== null || turn !== playerSymbol || !!roomState?.winner
-                          ? "cursor-not-allowed opacity-60"
+                        isDisabled
+                          ? `cursor-not-allowed ${isWinning || isLast ? "" : "opacity-60"}`
                           : "cursor-pointer"
                       }`}
                     >
@@ -0,0 +1,117 @@
+import { Chess } from "chess.js";
+import {
+  INITIAL_FEN,
+  replayMoves,
+  toColor,
+  toUci,
+  type ChessColor,
+} from "@/lib/chess-rules";
+import { evaluatePosition } from "@/lib/chess-bot";
+
+export type MoveClassification = "best" | "good" | "inaccuracy" | "mistake" | "blunder";
+
+export type AnalyzedMove = {
+  ply: number; // nửa nước thứ mấy, bắt đầu từ 1
+  uci: string;
+  san: string;
+  color: ChessColor;
+  // Nước tốt nhất máy tìm được ở thế cờ trước nước này
+  bestMove: string | null;
+  // Số centipawn bên đi mất đi so với trước khi đi (không âm)
+  loss: number;
+  classification: MoveClassification;
+};
+
+export type ChessAnalysis = {
+  // Điểm của từng thế cờ (phần tử 0 = thế xuất phát), centipawn theo góc nhìn bên trắng
+  evaluations: number[];
+  moves: AnalyzedMove[];
+  depth: number;
+};
+
+export const MAX_ANALYSIS_PLIES = 300;
+
+const ANALYSIS_DEPTH = 3;
+// Tổng thời gian nghĩ cho cả ván; mỗi thế cờ được phần còn lại chia đều cho các thế chưa xét
+const ANALYSIS_BUDGET_MS = 20_000;
+const MIN_POSITION_MS = 50;
+const MAX_POSITION_MS = 400;
+// Chiếu hết quy về ±2000 để biểu đồ và độ lệch không bị méo
+const EVAL_LIMIT = 2000;
+
+// Mất bao nhiêu centipawn thì bị đánh dấu, xét từ nặng tới nhẹ
+const CLASSIFICATION_THRESHOLDS: [MoveClassification, number][] = [
+  ["blunder", 300],
+  ["mistake", 100],
+  ["inaccuracy", 50],
+];
+
+function clampEval(score: number) {
+  return Math.max(-EVAL_LIMIT, Math.min(EVAL_LIMIT, score));
+}
+
+function classify(uci: string, bestMove: string | null, loss: number): MoveClassification {
+  if (uci === bestMove) return "best";
+  const match = CLASSIFICATION_THRESHOLDS.find(([, threshold]) => loss >= threshold);
+  return match ? match[0] : "good";
+}
+
+/**
+ * Chấm điểm từng thế cờ của ván bằng engine JS có sẵn (không cần dịch vụ ngoài)
+ * rồi phân loại từng nước theo số điểm bên đi để mất. Chạy trên trình duyệt,
+ * nghĩ theo từng lát ngắn nên trang không bị treo trong lúc phân tích.
+ */
+export async function analyzeChessGame(
+  moves: string[],
+  startFen: string = INITIAL_FEN
+): Promise<ChessAnalysis> {
+  const history = replayMoves(moves.slice(0, MAX_ANALYSIS_PLIES), startFen).history({
+    verbose: true,
+  });
+  const deadline = Date.now() + ANALYSIS_BUDGET_MS;
+
+  // Đi lại từng nước trên cùng một bàn để luật lặp thế cờ vẫn được tính
+  const chess = new Chess(startFen);
+  const evaluations: number[] = [];
+  const bestMoves: (string | null)[] = [];
+  const record = async () => {
+    // Thế cờ trước lỡ quá giờ thì các thế sau được ít hơn, tổng không vượt ngân sách
+    const positionsLeft = history.length + 1 - evaluations.length;
+    const timeMs = Math.min(
+      MAX_POSITION_MS,
+      Math.max(MIN_POSITION_MS, (deadline - Date.now()) / positionsLeft)
+    );
+    const { score, bestMove } = await evaluatePosition(chess, {
+      maxDepth: ANALYSIS_DEPTH,
+      timeMs,
+    });
+    evaluations.push(clampEval(chess.turn() === "w" ? score : -score));
+    bestMoves.push(bestMove);
+  };
+
+  await record();
+  for (const move of history) {
+    chess.move(move);
+    await record();
+  }
+
+  return {
+    evaluations,
+    depth: ANALYSIS_DEPTH,
+    moves: history.map((move, index) => {
+      const uci = toUci(move);
+      const color = toColor(move.color);
+      const sign = color === "white" ? 1 : -1;
+      const loss = Math.max(0, sign * (evaluations[index] - evaluations[index + 1]));
+      return {
+        ply: index + 1,
+        uci,
+        san: move.san,
+        color,
+        bestMove: bestMoves[index],
+        loss,
+        classification: classify(uci, bestMoves[index], loss),
+      };
+    }),
+  };
+}
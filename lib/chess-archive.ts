@@ -0,0 +1,148 @@
+import clientPromise, { DB_NAME } from "@/lib/mongodb";
+import { ObjectId } from "mongodb";
+import {
+  INITIAL_FEN,
+  replayMoves,
+  type ChessColor,
+  type ChessResult,
+  type ChessTermination,
+} from "@/lib/chess-rules";
+import { getTimeControl } from "@/lib/chess-clock";
+
+export type ArchivedPlayer = {
+  name: string;
+  color: ChessColor;
+  avatar?: string;
+};
+
+export interface ChessGameRecord {
+  _id?: ObjectId;
+  roomId: string;
+  // createdAt của phòng: phòng bị xoá rồi tạo lại cùng mã đếm round lại từ 0,
+  // nên (roomId, round) thôi không phân biệt được ván; bản ghi cũ chưa có field này
+  roomCreatedAt?: Date;
+  round: number;
+  players: ArchivedPlayer[];
+  moves: string[];
+  startFen: string;
+  finalFen: string;
+  // "*" = ván bị kết thúc khi chưa phân định thắng thua
+  result: ChessResult | "*";
+  termination?: ChessTermination;
+  timeControl?: string;
+  startedAt: Date;
+  endedAt: Date;
+}
+
+const COLLECTION = "chess_games";
+
+let indexesReady = false;
+
+async function getGamesCollection() {
+  const client = await clientPromise;
+  const col = client.db(DB_NAME).collection<ChessGameRecord>(COLLECTION);
+  if (!indexesReady) {
+    // Bản ghi cũ chưa có roomCreatedAt có thể trùng (roomId, round) nên chỉ ràng buộc bản ghi mới
+    await col.createIndex(
+      { roomId: 1, roomCreatedAt: 1, round: 1 },
+      { unique: true, partialFilterExpression: { roomCreatedAt: { $exists: true } } }
+    );
+    indexesReady = true;
+  }
+  return col;
+}
+
+/**
+ * Lưu ván vừa chơi vào kho. Mỗi (roomId, roomCreatedAt, round) chỉ được lưu
+ * một lần nên gọi lại khi finish bị conflict và client thử lại cũng không tạo
+ * bản ghi trùng.
+ */
+export async function archiveChessGame(
+  record: Omit<ChessGameRecord, "_id"> & { roomCreatedAt: Date }
+): Promise<string> {
+  const col = await getGamesCollection();
+  const key = { roomId: record.roomId, roomCreatedAt: record.roomCreatedAt, round: record.round };
+
+  try {
+    const result = await col.updateOne(key, { $setOnInsert: record }, { upsert: true });
+    if (result.upsertedId) return result.upsertedId.toString();
+  } catch (err) {
+    // Hai request cùng upsert: request thua gặp duplicate key, đọc lại bản đã lưu
+    if ((err as { code?: number }).code !== 11000) throw err;
+  }
+
+  const existing = await col.findOne(key, { projection: { _id: 1 } });
+  if (!existing?._id) throw new Error("Không lưu được ván đấu");
+  return existing._id.toString();
+}
+
+export async function getChessGame(id: string): Promise<ChessGameRecord | null> {
+  if (!ObjectId.isValid(id)) return null;
+  const col = await getGamesCollection();
+  return col.findOne({ _id: new ObjectId(id) });
+}
+
+export async function listChessGames(params: {
+  roomId?: string;
+  limit?: number;
+}): Promise<ChessGameRecord[]> {
+  const { roomId, limit = 20 } = params;
+  const col = await getGamesCollection();
+  return col
+    .find(roomId ? { roomId } : {})
+    .sort({ endedAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), 100))
+    .toArray();
+}
+
+function formatPgnDate(date: Date) {
+  const y = date.getUTCFullYear();
+  const m = String(date.getUTCMonth() + 1).padStart(2, "0");
+  const d = String(date.getUTCDate()).padStart(2, "0");
+  return `${y}.${m}.${d}`;
+}
+
+// TimeControl theo chuẩn PGN: "giây+giây", cờ thư dùng "-"
+function formatPgnTimeControl(id: string | undefined) {
+  const timeControl = getTimeControl(id);
+  if (!timeControl) return null;
+  if (timeControl.initialMs === 0) return "-";
+  return `${timeControl.initialMs / 1000}+${timeControl.incrementMs / 1000}`;
+}
+
+// chess.js không escape giá trị tag, tên người chơi có thể chứa `"` hoặc `\`
+function escapePgnValue(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+}
+
+// Termination theo giá trị chuẩn của PGN, lý do chi tiết nằm trong room/archive
+function formatPgnTermination(game: ChessGameRecord) {
+  if (game.result === "*") return "unterminated";
+  if (game.termination === "timeout") return "time forfeit";
+  if (game.termination === "abandonment") return "abandoned";
+  return "normal";
+}
+
+/**
+ * Xuất PGN với đủ Seven Tag Roster (Event, Site, Date, Round, White, Black,
+ * Result); chess.js lo phần thứ tự tag, SetUp/FEN và movetext SAN.
+ */
+export function toPgn(game: ChessGameRecord): string {
+  const chess = replayMoves(game.moves, game.startFen || INITIAL_FEN);
+  const white = game.players.find((p) => p.color === "white");
+  const black = game.players.find((p) => p.color === "black");
+
+  chess.setHeader("Event", `Game With Sangle - phòng ${game.roomId}`);
+  chess.setHeader("Site", "Game With Sangle");
+  chess.setHeader("Date", formatPgnDate(new Date(game.startedAt)));
+  chess.setHeader("Round", String(game.round + 1));
+  chess.setHeader("White", white ? escapePgnValue(white.name) : "?");
+  chess.setHeader("Black", black ? escapePgnValue(black.name) : "?");
+  chess.setHeader("Result", game.result);
+
+  const timeControl = formatPgnTimeControl(game.timeControl);
+  if (timeControl) chess.setHeader("TimeControl", timeControl);
+  chess.setHeader("Termination", formatPgnTermination(game));
+
+  return `${chess.pgn()}\n`;
+}
@@ -0,0 +1,287 @@
+import type { Chess, Move, PieceSymbol } from "chess.js";
+import type { BotLevel } from "@/lib/game-room";
+import { toUci } from "@/lib/chess-rules";
+
+export type ChessBotOptions = {
+  // Độ sâu tối đa (nửa nước) của tìm kiếm sâu dần
+  maxDepth: number;
+  // Thời gian nghĩ tối đa cho một nước; hết giờ thì dùng kết quả của độ sâu gần nhất đã xong
+  timeMs: number;
+  // Chọn ngẫu nhiên trong các nước kém nước tốt nhất không quá bấy nhiêu centipawn
+  randomness?: number;
+};
+
+export const CHESS_BOT_OPTIONS: Record<BotLevel, ChessBotOptions> = {
+  easy: { maxDepth: 1, timeMs: 300, randomness: 150 },
+  medium: { maxDepth: 3, timeMs: 1500 },
+  hard: { maxDepth: 5, timeMs: 4000 },
+};
+
+export const MATE_SCORE = 100_000;
+const QUIESCENCE_DEPTH = 4;
+
+const PIECE_VALUES: Record<PieceSymbol, number> = {
+  p: 100,
+  n: 320,
+  b: 330,
+  r: 500,
+  q: 900,
+  k: 0,
+};
+
+// Bảng điểm theo ô cho quân trắng, hàng đầu là hàng 8 (giống thứ tự của chess.board())
+const PIECE_SQUARE_TABLES: Record<PieceSymbol, number[]> = {
+  p: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+    5, 5, 10, 25, 25, 10, 5, 5,
+    0, 0, 0, 20, 20, 0, 0, 0,
+    5, -5, -10, 0, 0, -10, -5, 5,
+    5, 10, 10, -20, -20, 10, 10, 5,
+    0, 0, 0, 0, 0, 0, 0, 0,
+  ],
+  n: [
+    -50, -40, -30, -30, -30, -30, -40, -50,
+    -40, -20, 0, 0, 0, 0, -20, -40,
+    -30, 0, 10, 15, 15, 10, 0, -30,
+    -30, 5, 15, 20, 20, 15, 5, -30,
+    -30, 0, 15, 20, 20, 15, 0, -30,
+    -30, 5, 10, 15, 15, 10, 5, -30,
+    -40, -20, 0, 5, 5, 0, -20, -40,
+    -50, -40, -30, -30, -30, -30, -40, -50,
+  ],
+  b: [
+    -20, -10, -10, -10, -10, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 10, 10, 5, 0, -10,
+    -10, 5, 5, 10, 10, 5, 5, -10,
+    -10, 0, 10, 10, 10, 10, 0, -10,
+    -10, 10, 10, 10, 10, 10, 10, -10,
+    -10, 5, 0, 0, 0, 0, 5, -10,
+    -20, -10, -10, -10, -10, -10, -10, -20,
+  ],
+  r: [
+    0, 0, 0, 0, 0, 0, 0, 0,
+    5, 10, 10, 10, 10, 10, 10, 5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    -5, 0, 0, 0, 0, 0, 0, -5,
+    0, 0, 0, 5, 5, 0, 0, 0,
+  ],
+  q: [
+    -20, -10, -10, -5, -5, -10, -10, -20,
+    -10, 0, 0, 0, 0, 0, 0, -10,
+    -10, 0, 5, 5, 5, 5, 0, -10,
+    -5, 0, 5, 5, 5, 5, 0, -5,
+    0, 0, 5, 5, 5, 5, 0, -5,
+    -10, 5, 5, 5, 5, 5, 0, -10,
+    -10, 0, 5, 0, 0, 0, 0, -10,
+    -20, -10, -10, -5, -5, -10, -10, -20,
+  ],
+  k: [
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -30, -40, -40, -50, -50, -40, -40, -30,
+    -20, -30, -30, -40, -40, -30, -30, -20,
+    -10, -20, -20, -20, -20, -20, -20, -10,
+    20, 20, 0, 0, 0, 0, 20, 20,
+    20, 30, 10, 0, 0, 10, 30, 20,
+  ],
+};
+
+// Hết giờ giữa chừng: bỏ dở độ sâu đang tìm
+class SearchTimeout extends Error {}
+
+// deadline: hết giờ nghĩ; sliceEnd: tới lúc phải nhường event loop (chạy một mạch thì Infinity)
+type SearchState = { deadline: number; sliceEnd: number };
+
+// Tìm kiếm viết dạng generator: mỗi lần `yield` là tạm dừng để nhường event loop
+type Search<T> = Generator<void, T, void>;
+
+// Mỗi lát nghĩ, hết lát thì nhường event loop (request khác trên server, giao diện trên trình duyệt)
+const SLICE_MS = 10;
+
+// Chất lượng quân + vị trí, tính theo bên sắp đi
+function evaluate(chess: Chess) {
+  let score = 0;
+  chess.board().forEach((rank, row) =>
+    rank.forEach((piece, col) => {
+      if (!piece) return;
+      const index = piece.color === "w" ? row * 8 + col : (7 - row) * 8 + col;
+      const value = PIECE_VALUES[piece.type] + PIECE_SQUARE_TABLES[piece.type][index];
+      score += piece.color === "w" ? value : -value;
+    })
+  );
+  return chess.turn() === "w" ? score : -score;
+}
+
+// Ăn quân giá trị cao bằng quân giá trị thấp trước (MVV-LVA), rồi tới phong cấp
+function moveOrder(move: Move) {
+  let order = 0;
+  if (move.captured) order += 10 * PIECE_VALUES[move.captured] - PIECE_VALUES[move.piece];
+  if (move.promotion) order += PIECE_VALUES[move.promotion];
+  return order;
+}
+
+function orderedMoves(chess: Chess, capturesOnly = false) {
+  const moves = chess.moves({ verbose: true });
+  return (capturesOnly ? moves.filter((m) => m.captured) : moves).sort(
+    (a, b) => moveOrder(b) - moveOrder(a)
+  );
+}
+
+// Sinh nước của chess.js tốn tới vài ms mỗi nút, nên nút nào cũng xem đồng hồ
+function* tick(state: SearchState): Search<void> {
+  const now = Date.now();
+  if (now > state.deadline) throw new SearchTimeout();
+  if (now > state.sliceEnd) yield;
+}
+
+// Chỉ xét tiếp các nước ăn quân để không dừng đánh giá giữa một pha đổi quân
+function* quiesce(
+  chess: Chess,
+  alpha: number,
+  beta: number,
+  depth: number,
+  state: SearchState
+): Search<number> {
+  yield* tick(state);
+  const standPat = evaluate(chess);
+  if (depth === 0 || standPat >= beta) return standPat;
+  alpha = Math.max(alpha, standPat);
+
+  for (const move of orderedMoves(chess, true)) {
+    chess.move(move);
+    const score = -(yield* quiesce(chess, -beta, -alpha, depth - 1, state));
+    chess.undo();
+    if (score >= beta) return score;
+    alpha = Math.max(alpha, score);
+  }
+  return alpha;
+}
+
+function* negamax(
+  chess: Chess,
+  depth: number,
+  alpha: number,
+  beta: number,
+  ply: number,
+  state: SearchState
+): Search<number> {
+  yield* tick(state);
+  const moves = orderedMoves(chess);
+  if (moves.length === 0) return chess.inCheck() ? -MATE_SCORE + ply : 0;
+  if (chess.isDraw()) return 0;
+  if (depth === 0) return yield* quiesce(chess, alpha, beta, QUIESCENCE_DEPTH, state);
+
+  let best = -Infinity;
+  for (const move of moves) {
+    chess.move(move);
+    const score = -(yield* negamax(chess, depth - 1, -beta, -alpha, ply + 1, state));
+    chess.undo();
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+type ScoredMove = { move: Move; score: number };
+
+// Tìm kiếm sâu dần ở gốc: điểm của từng nước (theo bên tới lượt), nước tốt nhất đứng đầu
+function* searchRoot(
+  chess: Chess,
+  options: ChessBotOptions,
+  state: SearchState
+): Search<ScoredMove[]> {
+  let moves = orderedMoves(chess);
+  const startPly = chess.history().length;
+  let scored = moves.map((move) => ({ move, score: 0 }));
+
+  for (let depth = 1; depth <= options.maxDepth && moves.length > 0; depth += 1) {
+    const results: ScoredMove[] = [];
+    let alpha = -Infinity;
+    try {
+      for (const move of moves) {
+        // Còn chọn ngẫu nhiên thì cần điểm chính xác của từng nước, không cắt tỉa ở gốc
+        const bound = options.randomness ? -Infinity : alpha;
+        chess.move(move);
+        const score = -(yield* negamax(chess, depth - 1, -Infinity, -bound, 1, state));
+        chess.undo();
+        results.push({ move, score });
+        alpha = Math.max(alpha, score);
+      }
+    } catch (err) {
+      if (!(err instanceof SearchTimeout)) throw err;
+      // Trả bàn cờ về đúng thế ban đầu trước khi dừng
+      while (chess.history().length > startPly) chess.undo();
+      break;
+    }
+
+    scored = results.sort((a, b) => b.score - a.score);
+    moves = scored.map((r) => r.move);
+    if (scored[0].score >= MATE_SCORE - options.maxDepth) break;
+  }
+  return scored;
+}
+
+function newState(options: ChessBotOptions): SearchState {
+  return { deadline: Date.now() + options.timeMs, sliceEnd: Infinity };
+}
+
+// Trình duyệt không có setImmediate thì dùng setTimeout
+function yieldToEventLoop() {
+  return new Promise<void>((resolve) =>
+    typeof setImmediate === "function" ? setImmediate(resolve) : setTimeout(resolve, 0)
+  );
+}
+
+// Chạy từng lát SLICE_MS, giữa các lát nhường event loop để server / trang không bị treo
+async function runSliced<T>(search: Search<T>, state: SearchState): Promise<T> {
+  for (;;) {
+    state.sliceEnd = Date.now() + SLICE_MS;
+    const step = search.next();
+    if (step.done) return step.value;
+    await yieldToEventLoop();
+  }
+}
+
+/**
+ * Chọn nước đi (UCI) cho bên tới lượt bằng tìm kiếm alpha-beta sâu dần trên chess.js,
+ * không cần engine bên ngoài. Mỗi độ sâu xong thì nước tốt nhất được xét trước ở độ sâu sau.
+ * Nghĩ theo từng lát ngắn nên các request khác vẫn chạy xen vào; `chess` không được
+ * dùng ở chỗ khác cho tới khi xong. Trả về null nếu không còn nước nào.
+ */
+export async function chooseChessBotMove(
+  chess: Chess,
+  options: ChessBotOptions
+): Promise<string | null> {
+  const state = newState(options);
+  const scored = await runSliced(searchRoot(chess, options, state), state);
+  if (scored.length === 0) return null;
+
+  const best = scored[0].score;
+  const pool = options.randomness
+    ? scored.filter((r) => r.score >= best - options.randomness!)
+    : [scored[0]];
+  return toUci(pool[Math.floor(Math.random() * pool.length)].move);
+}
+
+// Điểm thế cờ (centipawn, theo bên tới lượt) và nước tốt nhất; hết nước thì tính chiếu hết / hoà
+export async function evaluatePosition(
+  chess: Chess,
+  options: ChessBotOptions
+): Promise<{ score: number; bestMove: string | null }> {
+  const rootOptions = { ...options, randomness: undefined };
+  const state = newState(rootOptions);
+  const scored = await runSliced(searchRoot(chess, rootOptions, state), state);
+  if (scored.length === 0) {
+    return { score: chess.inCheck() ? -MATE_SCORE : 0, bestMove: null };
+  }
+  if (chess.isDraw()) return { score: 0, bestMove: toUci(scored[0].move) };
+  return { score: scored[0].score, bestMove: toUci(scored[0].move) };
+}
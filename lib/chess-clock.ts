@@ -0,0 +1,106 @@
+import type { ChessColor } from "@/lib/chess-rules";
+
+export type TimeControl = {
+  id: string;
+  label: string;
+  initialMs: number;
+  incrementMs: number;
+};
+
+/**
+ * Đồng hồ lưu trong ChessRoom: thời gian còn lại của mỗi bên tính tới
+ * `runningSince`. Bên đang tới lượt bị trừ dần từ mốc đó; null nghĩa là
+ * đồng hồ chưa chạy (trước nước đầu tiên của trắng).
+ */
+export type ChessClock = {
+  white: number;
+  black: number;
+  runningSince: Date | string | null;
+};
+
+export const CORRESPONDENCE_ID = "correspondence";
+
+export const TIME_CONTROLS: TimeControl[] = [
+  { id: "1+0", label: "1 phút", initialMs: 60_000, incrementMs: 0 },
+  { id: "3+2", label: "3 phút + 2 giây", initialMs: 3 * 60_000, incrementMs: 2_000 },
+  { id: "5+0", label: "5 phút", initialMs: 5 * 60_000, incrementMs: 0 },
+  { id: "10+0", label: "10 phút", initialMs: 10 * 60_000, incrementMs: 0 },
+  { id: "15+10", label: "15 phút + 10 giây", initialMs: 15 * 60_000, incrementMs: 10_000 },
+  // Cờ thư: không giới hạn thời gian
+  { id: CORRESPONDENCE_ID, label: "Không giới hạn", initialMs: 0, incrementMs: 0 },
+];
+
+export const DEFAULT_TIME_CONTROL_ID = "10+0";
+
+export function getTimeControl(id: string | undefined | null): TimeControl | null {
+  return TIME_CONTROLS.find((tc) => tc.id === id) ?? null;
+}
+
+export function createClock(timeControl: TimeControl): ChessClock | null {
+  if (timeControl.id === CORRESPONDENCE_ID) return null;
+  return {
+    white: timeControl.initialMs,
+    black: timeControl.initialMs,
+    runningSince: null,
+  };
+}
+
+// Thời gian còn lại của `color` tại thời điểm `now`
+export function remainingMs(
+  clock: ChessClock,
+  color: ChessColor,
+  turn: ChessColor,
+  now: number = Date.now()
+): number {
+  const base = clock[color];
+  if (color !== turn || !clock.runningSince) return base;
+  const since = new Date(clock.runningSince).getTime();
+  return Math.max(0, base - (now - since));
+}
+
+/**
+ * Trừ thời gian của bên vừa đi, cộng increment và chuyển đồng hồ sang đối thủ.
+ * `flagged` = true khi bên đi đã hết giờ trước khi kịp đi nước này.
+ */
+export function pressClock(
+  clock: ChessClock,
+  mover: ChessColor,
+  incrementMs: number,
+  now: Date = new Date()
+): { clock: ChessClock; flagged: boolean } {
+  if (!clock.runningSince) {
+    // Nước đầu tiên chỉ bắt đầu chạy đồng hồ cho đối thủ
+    return { clock: { ...clock, runningSince: now }, flagged: false };
+  }
+
+  const left = remainingMs(clock, mover, mover, now.getTime());
+  if (left <= 0) {
+    return { clock: { ...clock, [mover]: 0 }, flagged: true };
+  }
+
+  return {
+    clock: { ...clock, [mover]: left + incrementMs, runningSince: now },
+    flagged: false,
+  };
+}
+
+// Dừng đồng hồ khi ván kết thúc, chốt lại thời gian còn lại của bên đang tới lượt
+export function stopClock(
+  clock: ChessClock,
+  turn: ChessColor,
+  now: number = Date.now()
+): ChessClock {
+  return { ...clock, [turn]: remainingMs(clock, turn, turn, now), runningSince: null };
+}
+
+export function formatClock(ms: number): string {
+  const safe = Math.max(0, ms);
+  if (safe < 10_000) {
+    // Dưới 10 giây hiển thị thêm phần mười giây
+    return (Math.floor(safe / 100) / 10).toFixed(1);
+  }
+  const totalSeconds = Math.ceil(safe / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
@@ -0,0 +1,159 @@
+import { Chess, validateFen, type Move, type Square } from "chess.js";
+
+export type ChessColor = "white" | "black";
+
+export type UciMove = {
+  from: string;
+  to: string;
+  promotion?: string;
+};
+
+// Kết quả theo ký hiệu PGN
+export type ChessResult = "1-0" | "0-1" | "1/2-1/2";
+
+export type ChessTermination =
+  | "checkmate"
+  | "stalemate"
+  | "threefold"
+  | "insufficient-material"
+  | "fifty-move"
+  | "resignation"
+  | "agreement"
+  | "timeout"
+  | "abandonment";
+
+export type ChessOutcome = {
+  result: ChessResult;
+  termination: ChessTermination;
+};
+
+export const PROMOTION_PIECES = ["q", "r", "b", "n"] as const;
+export type PromotionPiece = (typeof PROMOTION_PIECES)[number];
+
+export const INITIAL_FEN = "rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1";
+
+const UCI_PATTERN = /^([a-h][1-8])([a-h][1-8])([qrbn])?$/;
+
+export function toColor(turn: "w" | "b"): ChessColor {
+  return turn === "w" ? "white" : "black";
+}
+
+export function oppositeColor(color: ChessColor): ChessColor {
+  return color === "white" ? "black" : "white";
+}
+
+export function resultForWinner(winner: ChessColor): ChessResult {
+  return winner === "white" ? "1-0" : "0-1";
+}
+
+// Điểm của bên `color` theo kết quả ván: 1 thắng, 0.5 hoà, 0 thua
+export function scoreForColor(result: ChessResult, color: ChessColor): 0 | 0.5 | 1 {
+  if (result === "1/2-1/2") return 0.5;
+  return result === resultForWinner(color) ? 1 : 0;
+}
+
+// Nước đi lưu dạng UCI: "e2e4", phong cấp thêm ký tự quân ("e7e8q")
+export function parseUciMove(value: string): UciMove | null {
+  const match = UCI_PATTERN.exec(value.trim().toLowerCase());
+  if (!match) return null;
+  return {
+    from: match[1],
+    to: match[2],
+    ...(match[3] && { promotion: match[3] }),
+  };
+}
+
+export function toUci(move: Pick<Move, "from" | "to" | "promotion">): string {
+  return `${move.from}${move.to}${move.promotion ?? ""}`;
+}
+
+// Nước từ `from` tới `to` có phải là nước phong cấp hay không
+export function isPromotionMove(chess: Chess, from: string, to: string): boolean {
+  return chess
+    // chess.js typings mong muốn kiểu Square riêng
+    .moves({ square: from as Square, verbose: true })
+    .some((m) => m.to === to && Boolean(m.promotion));
+}
+
+/**
+ * Đi thử một nước UCI trên bàn cờ, trả về null nếu không hợp lệ
+ * (chess.js ném lỗi với nước đi sai luật). Nước cũ lưu thiếu quân phong cấp
+ * được hiểu là phong Hậu.
+ */
+export function applyUciMove(chess: Chess, value: string): Move | null {
+  const parsed = parseUciMove(value);
+  if (!parsed) return null;
+  try {
+    return chess.move({
+      from: parsed.from,
+      to: parsed.to,
+      promotion: parsed.promotion ?? "q",
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Dựng lại ván cờ từ danh sách nước đi đã lưu. Ném lỗi nếu gặp nước không hợp lệ
+ * để phía gọi có thể fallback sang FEN đã lưu.
+ */
+export function replayMoves(moves: string[], startFen: string = INITIAL_FEN): Chess {
+  const chess = new Chess(startFen);
+  for (const move of moves) {
+    if (!applyUciMove(chess, move)) {
+      throw new Error(`Nước đi đã lưu không hợp lệ: ${move}`);
+    }
+  }
+  return chess;
+}
+
+// Kết thúc ván theo luật trên bàn cờ (không tính xin thua, hoà thoả thuận, hết giờ)
+export function detectGameEnd(chess: Chess): ChessOutcome | null {
+  if (chess.isCheckmate()) {
+    return {
+      result: resultForWinner(oppositeColor(toColor(chess.turn()))),
+      termination: "checkmate",
+    };
+  }
+  const draw = (termination: ChessTermination): ChessOutcome => ({
+    result: "1/2-1/2",
+    termination,
+  });
+  if (chess.isStalemate()) return draw("stalemate");
+  if (chess.isInsufficientMaterial()) return draw("insufficient-material");
+  if (chess.isThreefoldRepetition()) return draw("threefold");
+  if (chess.isDrawByFiftyMoves()) return draw("fifty-move");
+  return null;
+}
+
+/**
+ * Đọc thế cờ xuất phát do người chơi nhập (FEN hoặc PGN). Với PGN, thế cờ sau
+ * nước cuối cùng được dùng làm điểm xuất phát.
+ */
+export function parseStartPosition(input: {
+  fen?: string;
+  pgn?: string;
+}): { fen: string } | { error: string } {
+  const fen = input.fen?.trim();
+  const pgn = input.pgn?.trim();
+  let chess: Chess;
+
+  if (fen) {
+    const validation = validateFen(fen);
+    if (!validation.ok) return { error: `FEN không hợp lệ: ${validation.error}` };
+    chess = new Chess(fen);
+  } else if (pgn) {
+    chess = new Chess();
+    try {
+      chess.loadPgn(pgn);
+    } catch (err) {
+      return { error: `PGN không hợp lệ: ${err instanceof Error ? err.message : ""}`.trim() };
+    }
+  } else {
+    return { fen: INITIAL_FEN };
+  }
+
+  if (chess.isGameOver()) return { error: "Thế cờ này đã kết thúc, không thể bắt đầu ván" };
+  return { fen: chess.fen() };
+}
@@ -0,0 +1,400 @@
+import { Chess } from "chess.js";
+import type { BaseGameRoom, Player } from "@/lib/game-room";
+import { GameRuleError, type GameEngine } from "@/lib/game-engine";
+import {
+  INITIAL_FEN,
+  applyUciMove,
+  detectGameEnd,
+  isPromotionMove,
+  oppositeColor,
+  parseUciMove,
+  parseStartPosition,
+  replayMoves,
+  resultForWinner,
+  scoreForColor,
+  toColor,
+  toUci,
+  type ChessColor,
+  type ChessOutcome,
+  type ChessResult,
+  type ChessTermination,
+} from "@/lib/chess-rules";
+import {
+  DEFAULT_TIME_CONTROL_ID,
+  createClock,
+  getTimeControl,
+  pressClock,
+  remainingMs,
+  stopClock,
+  type ChessClock,
+} from "@/lib/chess-clock";
+import { archiveChessGame } from "@/lib/chess-archive";
+import { CHESS_BOT_OPTIONS, chooseChessBotMove } from "@/lib/chess-bot";
+import { recordGameResult } from "@/lib/game-results";
+
+export type ChessPlayer = Player & { color: ChessColor };
+
+export interface ChessRoom extends BaseGameRoom {
+  players: ChessPlayer[];
+  moves: string[];
+  // Thế cờ xuất phát (FEN); mỗi ván mới đều reset về đây
+  startFen?: string;
+  fen: string;
+  turn: ChessColor;
+  roundIndex: number;
+  roundStartedAt?: Date;
+  timeControl: string;
+  clock: ChessClock | null;
+  result?: ChessResult;
+  termination?: ChessTermination;
+  drawOfferBy?: ChessColor;
+  // Lời xin đi lại đang chờ đối thủ đồng ý: lùi `plies` nửa nước
+  undoRequest?: { by: ChessColor; plies: number };
+  // Kết quả ván vừa kết thúc, giữ lại sau khi finish reset bàn cờ
+  previousResult?: ChessOutcome & { roundIndex: number; gameId?: string };
+  lastMoveBy?: string;
+}
+
+// Dựng lại ván từ lịch sử nước đi; document cũ có thể chỉ còn FEN hợp lệ
+export function loadGame(room: ChessRoom): Chess {
+  try {
+    return replayMoves(room.moves ?? [], startFenOf(room));
+  } catch {
+    return new Chess(room.fen || startFenOf(room));
+  }
+}
+
+function startFenOf(room: ChessRoom) {
+  return room.startFen || INITIAL_FEN;
+}
+
+function turnFromFen(fen: string) {
+  return toColor(new Chess(fen).turn());
+}
+
+// Ván chưa có kết quả thì mới được xin thua, mời hoà, xin đi lại
+function ensurePlaying(room: ChessRoom) {
+  if (room.result) throw new GameRuleError("Ván đấu đã kết thúc");
+}
+
+// Kết thúc ván giữa chừng thì đồng hồ dừng lại ở thời gian còn lại
+function withStoppedClock(room: ChessRoom, updates: Partial<ChessRoom>): Partial<ChessRoom> {
+  if (updates.result && room.clock) {
+    return { ...updates, clock: stopClock(room.clock, room.turn) };
+  }
+  return updates;
+}
+
+// Lùi `plies` nửa nước cuối, giữ nguyên thời gian còn lại, đồng hồ chạy lại từ lúc đi lại
+function undoMoves(room: ChessRoom, plies: number): Partial<ChessRoom> {
+  const moves = room.moves ?? [];
+  const remaining = moves.slice(0, Math.max(0, moves.length - plies));
+  const chess = replayMoves(remaining, startFenOf(room));
+  const updates: Partial<ChessRoom> = {
+    moves: remaining,
+    fen: chess.fen(),
+    turn: toColor(chess.turn()),
+    undoRequest: undefined,
+    drawOfferBy: undefined,
+  };
+  if (room.clock) {
+    updates.clock = {
+      ...stopClock(room.clock, room.turn),
+      runningSince: remaining.length > 0 ? new Date() : null,
+    };
+  }
+  return updates;
+}
+
+function pendingDrawOffer(room: ChessRoom, player: ChessPlayer) {
+  if (room.drawOfferBy !== oppositeColor(player.color)) {
+    throw new GameRuleError("Không có lời mời hoà nào");
+  }
+}
+
+function pendingUndo(room: ChessRoom, player: ChessPlayer) {
+  const request = room.undoRequest;
+  if (!request || request.by === player.color) {
+    throw new GameRuleError("Không có lời xin đi lại nào");
+  }
+  return request;
+}
+
+export const chessEngine: GameEngine<ChessRoom, ChessPlayer> = {
+  gameType: "chess",
+  maxPlayers: 2,
+
+  initialState({ roundIndex, body }) {
+    const timeControl =
+      getTimeControl(body.timeControl as string | undefined) ??
+      getTimeControl(DEFAULT_TIME_CONTROL_ID)!;
+
+    // Thế cờ xuất phát tuỳ chọn, dùng một trong hai: startFen hoặc startPgn
+    const start = parseStartPosition({
+      fen: typeof body.startFen === "string" ? body.startFen : undefined,
+      pgn: typeof body.startPgn === "string" ? body.startPgn : undefined,
+    });
+    if ("error" in start) throw new GameRuleError(start.error);
+
+    return {
+      moves: [],
+      startFen: start.fen,
+      fen: start.fen,
+      turn: turnFromFen(start.fen),
+      roundIndex,
+      roundStartedAt: new Date(),
+      timeControl: timeControl.id,
+      clock: createClock(timeControl),
+    };
+  },
+
+  // Người đầu tiên cầm trắng ở ván chẵn, người sau cầm màu còn lại
+  assignSeat({ players, roundIndex }) {
+    if (players.length === 0) {
+      return { color: roundIndex % 2 === 0 ? "white" : "black" };
+    }
+    return { color: oppositeColor(players[0].color) };
+  },
+
+  applyMove({ room, player, body }) {
+    const move = body.move; // UCI, vd "e2e4" hoặc "e7e8n"
+    const chess = loadGame(room);
+    if (chess.isGameOver()) {
+      throw new GameRuleError("Ván đấu đã kết thúc");
+    }
+
+    if (toColor(chess.turn()) !== player.color) {
+      throw new GameRuleError("Chưa tới lượt của bạn");
+    }
+
+    // move dạng UCI, phong cấp phải ghi rõ quân: "e7e8q", "e7e8n"...
+    const parsed = typeof move === "string" ? parseUciMove(move) : null;
+    if (!parsed) {
+      throw new GameRuleError("Nước đi không hợp lệ");
+    }
+    if (isPromotionMove(chess, parsed.from, parsed.to) && !parsed.promotion) {
+      throw new GameRuleError("Cần chọn quân để phong cấp (q, r, b, n)");
+    }
+
+    const applied = applyUciMove(chess, move as string);
+    if (!applied) {
+      throw new GameRuleError("Nước đi không hợp lệ");
+    }
+
+    let clock = room.clock ?? null;
+    if (clock) {
+      const increment = getTimeControl(room.timeControl)?.incrementMs ?? 0;
+      const pressed = pressClock(clock, player.color, increment);
+      if (pressed.flagged) {
+        // Hết giờ trước khi kịp đi: nước đi không được tính, đối thủ thắng
+        throw new GameRuleError<ChessRoom>("Bạn đã hết giờ", {
+          clock: pressed.clock,
+          result: resultForWinner(oppositeColor(player.color)),
+          termination: "timeout",
+        });
+      }
+      clock = pressed.clock;
+    }
+
+    const outcome = detectGameEnd(chess);
+    if (outcome && clock) {
+      clock = { ...clock, runningSince: null };
+    }
+
+    return {
+      moves: [...(room.moves ?? []), toUci(applied)],
+      clock,
+      fen: chess.fen(),
+      turn: toColor(chess.turn()),
+      result: outcome?.result,
+      termination: outcome?.termination,
+      // Đi một nước coi như từ chối lời mời hoà / xin đi lại đang treo
+      drawOfferBy: undefined,
+      undoRequest: undefined,
+    };
+  },
+
+  isFinished(room) {
+    return Boolean(room.result);
+  },
+
+  async botMove({ room, bot }) {
+    if (room.result || room.turn !== bot.color || !bot.bot) return null;
+    const options = CHESS_BOT_OPTIONS[bot.bot];
+    // Có đồng hồ thì không nghĩ quá 1/20 thời gian còn lại
+    const timeMs = room.clock
+      ? Math.min(options.timeMs, remainingMs(room.clock, bot.color, room.turn) / 20)
+      : options.timeMs;
+    // Nghĩ theo từng lát ngắn để các request khác (phòng khác, đồng hồ) vẫn được xử lý
+    const move = await chooseChessBotMove(loadGame(room), { ...options, timeMs });
+    return move ? { move } : null;
+  },
+
+  async nextRound({ room, player }) {
+    // Người bấm kết thúc khi ván còn dang dở bị xử thua (bỏ cuộc)
+    let outcome: ChessOutcome | null = room.result
+      ? { result: room.result, termination: room.termination ?? "abandonment" }
+      : null;
+    if (!outcome && (room.moves ?? []).length > 0) {
+      outcome = {
+        result: resultForWinner(oppositeColor(player.color)),
+        termination: "abandonment",
+      };
+    }
+
+    // Lưu ván vào kho trước khi reset bàn cờ (bỏ qua ván chưa có nước nào)
+    const moves = room.moves ?? [];
+    const gameId =
+      moves.length > 0
+        ? await archiveChessGame({
+            roomId: room.roomId,
+            roomCreatedAt: new Date(room.createdAt),
+            round: room.roundIndex ?? 0,
+            players: room.players.map((p) => ({
+              name: p.name,
+              color: p.color,
+              ...(p.avatar && { avatar: p.avatar }),
+            })),
+            moves,
+            startFen: startFenOf(room),
+            finalFen: room.fen || startFenOf(room),
+            result: outcome?.result ?? "*",
+            termination: outcome?.termination,
+            timeControl: room.timeControl,
+            startedAt: room.roundStartedAt ?? room.createdAt,
+            endedAt: new Date(),
+          })
+        : undefined;
+
+    // Ván đã lưu và có kết quả thì ghi vào lịch sử người chơi (kèm tính Elo)
+    if (gameId && outcome) {
+      await recordGameResult({
+        gameType: "chess",
+        gameId,
+        roomId: room.roomId,
+        round: room.roundIndex ?? 0,
+        players: room.players.map((p) => ({
+          name: p.name,
+          avatar: p.avatar,
+          score: scoreForColor(outcome.result, p.color),
+          bot: p.bot,
+        })),
+      });
+    }
+
+    const timeControl = getTimeControl(room.timeControl);
+    const swappedPlayers: ChessPlayer[] = (room.players ?? []).map((p) => ({
+      ...p,
+      color: oppositeColor(p.color),
+    }));
+
+    return {
+      moves: [],
+      fen: startFenOf(room),
+      turn: turnFromFen(startFenOf(room)),
+      roundIndex: (room.roundIndex ?? 0) + 1,
+      players: swappedPlayers,
+      clock: timeControl ? createClock(timeControl) : null,
+      result: undefined,
+      termination: undefined,
+      drawOfferBy: undefined,
+      undoRequest: undefined,
+      roundStartedAt: new Date(),
+      previousResult: outcome
+        ? { ...outcome, roundIndex: room.roundIndex ?? 0, gameId }
+        : undefined,
+      lastMoveBy: undefined,
+    };
+  },
+
+  actions: {
+    resign: {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        return withStoppedClock(room, {
+          result: resultForWinner(oppositeColor(player!.color)),
+          termination: "resignation",
+          drawOfferBy: undefined,
+        });
+      },
+    },
+    "offer-draw": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        if (room.drawOfferBy === oppositeColor(player!.color)) {
+          throw new GameRuleError("Đối thủ đang mời hoà, hãy chấp nhận hoặc từ chối");
+        }
+        return { drawOfferBy: player!.color };
+      },
+    },
+    "accept-draw": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        pendingDrawOffer(room, player!);
+        return withStoppedClock(room, {
+          result: "1/2-1/2",
+          termination: "agreement",
+          drawOfferBy: undefined,
+        });
+      },
+    },
+    "decline-draw": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        pendingDrawOffer(room, player!);
+        return { drawOfferBy: undefined };
+      },
+    },
+    "request-undo": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        // Vừa đi xong thì lùi 1 nửa nước, đối thủ đã đáp lại thì lùi cả cặp
+        const plies = room.turn === player!.color ? 2 : 1;
+        if ((room.moves ?? []).length < plies) {
+          throw new GameRuleError("Chưa có nước nào để đi lại");
+        }
+        // Chơi với máy thì được đi lại ngay, không cần chờ đồng ý
+        if (room.players.some((p) => p.bot && p.color !== player!.color)) {
+          return undoMoves(room, plies);
+        }
+        return { undoRequest: { by: player!.color, plies } };
+      },
+    },
+    "accept-undo": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        const request = pendingUndo(room, player!);
+        return undoMoves(room, request.plies);
+      },
+    },
+    "decline-undo": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        pendingUndo(room, player!);
+        return { undoRequest: undefined };
+      },
+    },
+    // Bất kỳ client nào thấy đồng hồ về 0 đều có thể báo, server tự kiểm tra lại
+    flag: {
+      requiresPlayer: false,
+      run({ room }) {
+        const clock = room.clock;
+        if (!clock || room.result || remainingMs(clock, room.turn, room.turn) > 0) {
+          throw new GameRuleError("Chưa hết giờ");
+        }
+        return {
+          clock: { ...stopClock(clock, room.turn), [room.turn]: 0 },
+          result: resultForWinner(oppositeColor(room.turn)),
+          termination: "timeout",
+        };
+      },
+    },
+  },
+};
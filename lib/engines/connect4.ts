@@ -0,0 +1,173 @@
+import type { BaseGameRoom, Player } from "@/lib/game-room";
+import { GameRuleError, type GameEngine } from "@/lib/game-engine";
+import { recordGameResult } from "@/lib/game-results";
+
+export type Connect4Color = "red" | "yellow";
+
+export type Connect4Player = Player & { color: Connect4Color };
+
+export type Connect4Move = { row: number; col: number; color: Connect4Color };
+
+export interface Connect4Room extends BaseGameRoom {
+  players: Connect4Player[];
+  board: (Connect4Color | null)[][]; // 6 hàng x 7 cột, hàng 0 ở trên cùng
+  moves: Connect4Move[];
+  turn: Connect4Color;
+  roundIndex: number;
+  winner?: Connect4Color | "draw" | null;
+  lastMoveBy?: string;
+}
+
+export const CONNECT4_ROWS = 6;
+export const CONNECT4_COLS = 7;
+const CONNECT_LENGTH = 4;
+
+function emptyBoard(): (Connect4Color | null)[][] {
+  return Array.from({ length: CONNECT4_ROWS }, () =>
+    Array.from({ length: CONNECT4_COLS }, () => null)
+  );
+}
+
+function otherColor(color: Connect4Color): Connect4Color {
+  return color === "red" ? "yellow" : "red";
+}
+
+// Đếm các quân liên tiếp cùng màu đi qua (row, col) theo hướng (dr, dc) và ngược lại
+function lineLength(
+  board: (Connect4Color | null)[][],
+  row: number,
+  col: number,
+  dr: number,
+  dc: number
+) {
+  const color = board[row][col];
+  let count = 1;
+  for (const sign of [1, -1]) {
+    let r = row + dr * sign;
+    let c = col + dc * sign;
+    while (board[r]?.[c] === color) {
+      count += 1;
+      r += dr * sign;
+      c += dc * sign;
+    }
+  }
+  return count;
+}
+
+// Chỉ cần kiểm tra các đường đi qua quân vừa thả
+function checkWinner(
+  board: (Connect4Color | null)[][],
+  row: number,
+  col: number
+): Connect4Color | "draw" | null {
+  const color = board[row][col];
+  if (!color) return null;
+
+  const directions = [
+    [0, 1], // ngang
+    [1, 0], // dọc
+    [1, 1], // chéo xuống phải
+    [1, -1], // chéo xuống trái
+  ];
+  if (directions.some(([dr, dc]) => lineLength(board, row, col, dr, dc) >= CONNECT_LENGTH)) {
+    return color;
+  }
+
+  const isFull = board[0].every((cell) => cell !== null);
+  return isFull ? "draw" : null;
+}
+
+export const connect4Engine: GameEngine<Connect4Room, Connect4Player> = {
+  gameType: "connect4",
+  maxPlayers: 2,
+
+  initialState({ roundIndex }) {
+    return {
+      board: emptyBoard(),
+      moves: [],
+      turn: "red",
+      roundIndex,
+    };
+  },
+
+  // Người đầu tiên cầm đỏ (đi trước) ở ván chẵn, người sau cầm màu còn lại
+  assignSeat({ players, roundIndex }) {
+    if (players.length === 0) {
+      return { color: roundIndex % 2 === 0 ? "red" : "yellow" };
+    }
+    return { color: otherColor(players[0].color) };
+  },
+
+  applyMove({ room, player, body }) {
+    const col = Number(body.col);
+    if (!Number.isInteger(col) || col < 0 || col >= CONNECT4_COLS) {
+      throw new GameRuleError("Nước đi không hợp lệ");
+    }
+
+    if (room.turn !== player.color) {
+      throw new GameRuleError("Chưa tới lượt của bạn");
+    }
+
+    // Quân rơi xuống ô trống thấp nhất của cột
+    const board = (room.board ?? emptyBoard()).map((r) => [...r]);
+    let row = -1;
+    for (let r = CONNECT4_ROWS - 1; r >= 0; r -= 1) {
+      if (board[r][col] === null) {
+        row = r;
+        break;
+      }
+    }
+    if (row === -1) {
+      throw new GameRuleError("Cột này đã đầy");
+    }
+
+    board[row][col] = player.color;
+    const winner = checkWinner(board, row, col);
+
+    return {
+      board,
+      moves: [...(room.moves ?? []), { row, col, color: player.color }],
+      turn: winner ? room.turn : otherColor(room.turn),
+      winner: winner ?? undefined,
+    };
+  },
+
+  isFinished(room) {
+    return Boolean(room.winner);
+  },
+
+  async nextRound({ room, player }) {
+    // Ván có kết quả thì ghi vào lịch sử người chơi (Connect Four chưa tính Elo).
+    // Người bấm kết thúc / rời phòng khi ván còn dang dở bị xử thua (bỏ cuộc)
+    const winner =
+      room.winner ?? ((room.moves ?? []).length > 0 ? otherColor(player.color) : null);
+    if (winner) {
+      await recordGameResult({
+        gameType: "connect4",
+        gameId: `${room.roomId}:${new Date(room.createdAt).getTime()}:${room.roundIndex ?? 0}`,
+        roomId: room.roomId,
+        round: room.roundIndex ?? 0,
+        players: room.players.map((p) => ({
+          name: p.name,
+          avatar: p.avatar,
+          score: winner === "draw" ? 0.5 : p.color === winner ? 1 : 0,
+        })),
+      });
+    }
+
+    const swappedPlayers: Connect4Player[] = (room.players ?? []).map((p) => ({
+      ...p,
+      color: otherColor(p.color),
+    }));
+
+    return {
+      board: emptyBoard(),
+      moves: [],
+      turn: "red",
+      roundIndex: (room.roundIndex ?? 0) + 1,
+      players: swappedPlayers,
+      winner: undefined,
+      lastMoveBy: undefined,
+    };
+  },
+};
@@ -0,0 +1,19 @@
+import type { AnyGameEngine } from "@/lib/game-engine";
+import { chessEngine } from "@/lib/engines/chess";
+import { connect4Engine } from "@/lib/engines/connect4";
+import { xoEngine } from "@/lib/engines/xo";
+
+// Thêm game mới: viết engine trong lib/engines rồi đăng ký ở đây
+const GAME_ENGINES: Record<string, AnyGameEngine> = {
+  [chessEngine.gameType]: chessEngine,
+  [xoEngine.gameType]: xoEngine,
+  [connect4Engine.gameType]: connect4Engine,
+};
+
+export function getGameEngine(gameType: string): AnyGameEngine | null {
+  return GAME_ENGINES[gameType] ?? null;
+}
+
+export function listGameEngines(): AnyGameEngine[] {
+  return Object.values(GAME_ENGINES);
+}
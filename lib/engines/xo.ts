@@ -0,0 +1,239 @@
+import type { BaseGameRoom, Player } from "@/lib/game-room";
+import { GameRuleError, type GameEngine } from "@/lib/game-engine";
+import {
+  MAX_BOARD_SIZE,
+  MIN_BOARD_SIZE,
+  WIN_LENGTHS,
+  checkWinner,
+  emptyBoard,
+  otherSymbol,
+  type XOCell,
+  type XORules,
+  type XOSymbol,
+} from "@/lib/xo-rules";
+import { chooseXOBotMove } from "@/lib/xo-bot";
+import { recordGameResult } from "@/lib/game-results";
+
+export type XOPlayer = Player & { symbol: XOSymbol };
+
+export type XOMove = { row: number; col: number; symbol: XOSymbol };
+
+export interface XORoom extends BaseGameRoom {
+  players: XOPlayer[];
+  board: (string | null)[][]; // boardSize x boardSize, null or "X" or "O"
+  // Kích thước bàn và số quân liên tiếp để thắng; phòng cũ không có = 3x3 / 3
+  boardSize?: number;
+  winLength?: number;
+  // Luật chặn hai đầu của caro: đường thắng bị quân đối thủ chặn cả hai đầu thì không tính
+  blockedEnds?: boolean;
+  moves?: XOMove[]; // thứ tự các nước đã đánh, dùng để đi lại
+  turn: XOSymbol;
+  roundIndex: number;
+  winner?: XOSymbol | "draw" | null;
+  // Các ô tạo thành đường thắng và nước vừa đánh, để client tô sáng
+  winningLine?: XOCell[];
+  lastMove?: XOCell;
+  // Lời xin đi lại đang chờ đối thủ đồng ý: lùi `plies` nước
+  undoRequest?: { by: XOSymbol; plies: number };
+  lastMoveBy?: string;
+}
+
+// Bản sao bàn hiện tại để sửa (phòng cũ có thể chưa lưu board)
+function boardOf(room: XORoom): (string | null)[][] {
+  return (room.board ?? emptyBoard(room.boardSize ?? MIN_BOARD_SIZE)).map((r) => [...r]);
+}
+
+function rulesOf(room: XORoom): XORules {
+  return { winLength: room.winLength ?? 3, blockedEnds: Boolean(room.blockedEnds) };
+}
+
+// Đọc cấu hình bàn từ body create: 3x3 tới 19x19, thắng khi đủ 3 hoặc 5 quân
+function parseBoardOptions(body: Record<string, unknown>) {
+  const boardSize = body.boardSize === undefined ? MIN_BOARD_SIZE : Number(body.boardSize);
+  if (!Number.isInteger(boardSize) || boardSize < MIN_BOARD_SIZE || boardSize > MAX_BOARD_SIZE) {
+    throw new GameRuleError(
+      `Kích thước bàn phải từ ${MIN_BOARD_SIZE}x${MIN_BOARD_SIZE} tới ${MAX_BOARD_SIZE}x${MAX_BOARD_SIZE}`
+    );
+  }
+
+  const winLength =
+    body.winLength === undefined ? (boardSize >= 5 ? 5 : 3) : Number(body.winLength);
+  if (!(WIN_LENGTHS as readonly number[]).includes(winLength) || winLength > boardSize) {
+    throw new GameRuleError("Số quân để thắng phải là 3 hoặc 5 và không lớn hơn kích thước bàn");
+  }
+
+  return { boardSize, winLength, blockedEnds: winLength === 5 && Boolean(body.blockedEnds) };
+}
+
+// Ván chưa kết thúc thì mới được xin / trả lời đi lại
+function ensurePlaying(room: XORoom) {
+  if (room.winner) throw new GameRuleError("Ván đấu đã kết thúc");
+}
+
+// Lùi `plies` nước cuối, lượt quay về người đã đánh nước đầu tiên bị lùi
+function undoMoves(room: XORoom, plies: number): Partial<XORoom> {
+  const moves = room.moves ?? [];
+  const kept = moves.slice(0, Math.max(0, moves.length - plies));
+  const undone = moves.slice(kept.length);
+  const board = boardOf(room);
+  undone.forEach((m) => {
+    board[m.row][m.col] = null;
+  });
+  const previous = kept[kept.length - 1];
+  return {
+    board,
+    moves: kept,
+    lastMove: previous ? { row: previous.row, col: previous.col } : undefined,
+    turn: undone[0]?.symbol ?? room.turn,
+    undoRequest: undefined,
+  };
+}
+
+function pendingUndo(room: XORoom, player: XOPlayer) {
+  const request = room.undoRequest;
+  if (!request || request.by === player.symbol) {
+    throw new GameRuleError("Không có lời xin đi lại nào");
+  }
+  return request;
+}
+
+export const xoEngine: GameEngine<XORoom, XOPlayer> = {
+  gameType: "xo",
+  maxPlayers: 2,
+
+  initialState({ roundIndex, body }) {
+    const options = parseBoardOptions(body);
+    return {
+      ...options,
+      board: emptyBoard(options.boardSize),
+      moves: [],
+      turn: "X",
+      roundIndex,
+    };
+  },
+
+  // Người đầu tiên cầm X ở ván chẵn, người sau cầm ký hiệu còn lại
+  assignSeat({ players, roundIndex }) {
+    if (players.length === 0) {
+      return { symbol: roundIndex % 2 === 0 ? "X" : "O" };
+    }
+    return { symbol: otherSymbol(players[0].symbol) };
+  },
+
+  applyMove({ room, player, body }) {
+    const row = Number(body.row);
+    const col = Number(body.col);
+    const board = boardOf(room);
+
+    // Validate move
+    if (!Number.isInteger(row) || !Number.isInteger(col) || board[row]?.[col] === undefined) {
+      throw new GameRuleError("Nước đi không hợp lệ");
+    }
+
+    if (board[row][col] !== null) {
+      throw new GameRuleError("Ô này đã được đánh");
+    }
+
+    if (room.turn !== player.symbol) {
+      throw new GameRuleError("Chưa tới lượt của bạn");
+    }
+
+    // Make move
+    board[row][col] = player.symbol;
+    const { winner, line } = checkWinner(board, row, col, rulesOf(room));
+
+    return {
+      board,
+      moves: [...(room.moves ?? []), { row, col, symbol: player.symbol }],
+      turn: winner ? room.turn : otherSymbol(room.turn),
+      winner: winner ?? undefined,
+      winningLine: line,
+      lastMove: { row, col },
+      undoRequest: undefined,
+    };
+  },
+
+  isFinished(room) {
+    return Boolean(room.winner);
+  },
+
+  botMove({ room, bot }) {
+    if (room.winner || room.turn !== bot.symbol || !bot.bot) return null;
+    return chooseXOBotMove(boardOf(room), bot.symbol, rulesOf(room), bot.bot);
+  },
+
+  async nextRound({ room, player }) {
+    // Ván có kết quả thì ghi vào lịch sử người chơi (kèm tính Elo); phòng bị xoá
+    // rồi tạo lại cùng mã có createdAt mới nên gameId không trùng ván cũ.
+    // Người bấm kết thúc / rời phòng khi ván còn dang dở bị xử thua (bỏ cuộc)
+    const winner =
+      room.winner ?? ((room.moves ?? []).length > 0 ? otherSymbol(player.symbol) : null);
+    if (winner) {
+      await recordGameResult({
+        gameType: "xo",
+        gameId: `${room.roomId}:${new Date(room.createdAt).getTime()}:${room.roundIndex ?? 0}`,
+        roomId: room.roomId,
+        round: room.roundIndex ?? 0,
+        players: room.players.map((p) => ({
+          name: p.name,
+          avatar: p.avatar,
+          score: winner === "draw" ? 0.5 : p.symbol === winner ? 1 : 0,
+          bot: p.bot,
+        })),
+      });
+    }
+
+    const swappedPlayers: XOPlayer[] = (room.players ?? []).map((p) => ({
+      ...p,
+      symbol: otherSymbol(p.symbol),
+    }));
+
+    return {
+      board: emptyBoard(room.board?.length || room.boardSize || MIN_BOARD_SIZE),
+      moves: [],
+      turn: "X",
+      roundIndex: (room.roundIndex ?? 0) + 1,
+      players: swappedPlayers,
+      winner: undefined,
+      winningLine: undefined,
+      lastMove: undefined,
+      undoRequest: undefined,
+      lastMoveBy: undefined,
+    };
+  },
+
+  actions: {
+    "request-undo": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        // Vừa đánh xong thì lùi 1 nước, đối thủ đã đánh tiếp thì lùi cả cặp
+        const plies = room.turn === player!.symbol ? 2 : 1;
+        if ((room.moves ?? []).length < plies) {
+          throw new GameRuleError("Chưa có nước nào để đi lại");
+        }
+        // Chơi với máy thì được đi lại ngay, không cần chờ đồng ý
+        if (room.players.some((p) => p.bot && p.symbol !== player!.symbol)) {
+          return undoMoves(room, plies);
+        }
+        return { undoRequest: { by: player!.symbol, plies } };
+      },
+    },
+    "accept-undo": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        const request = pendingUndo(room, player!);
+        return undoMoves(room, request.plies);
+      },
+    },
+    "decline-undo": {
+      requiresPlayer: true,
+      run({ room, player }) {
+        ensurePlaying(room);
+        pendingUndo(room, player!);
+        return { undoRequest: undefined };
+      },
+    },
+  },
+};
@@ -0,0 +1,77 @@
+import type { BaseGameRoom, BotLevel, Player, RoomStatus } from "@/lib/game-room";
+
+/**
+ * Ném ra khi nước đi / thao tác sai luật của game. Route trả về 400.
+ * `updates` (nếu có) vẫn được lưu vào phòng trước khi báo lỗi, vd người chơi
+ * hết giờ ngay lúc gửi nước đi thì nước đó bị huỷ nhưng ván vẫn kết thúc.
+ */
+export class GameRuleError<R extends BaseGameRoom = BaseGameRoom> extends Error {
+  constructor(
+    message: string,
+    public updates?: Partial<R>
+  ) {
+    super(message);
+    this.name = "GameRuleError";
+  }
+}
+
+// Body của request, mỗi engine tự đọc các field riêng của mình
+export type ActionBody = Record<string, unknown>;
+
+export type GameAction<R extends BaseGameRoom, P extends Player> = {
+  // false: ai cũng gọi được (vd báo hết giờ, server tự kiểm tra lại)
+  requiresPlayer: boolean;
+  run(ctx: { room: R; player?: P; body: ActionBody }): Partial<R> | Promise<Partial<R>>;
+};
+
+/**
+ * Luật của một game. Route chung `/api/games/[gameType]/room` lo phần phòng
+ * (tạo, vào, xem, token, version); engine chỉ mô tả bàn chơi và nước đi.
+ */
+export interface GameEngine<R extends BaseGameRoom, P extends Player = Player> {
+  gameType: string;
+  maxPlayers: number;
+
+  // Trạng thái bàn chơi của ván đầu tiên khi tạo phòng (body = options của create)
+  initialState(params: { roundIndex: number; body: ActionBody }): Partial<R>;
+
+  // Ghế (màu / ký hiệu) cho người vào phòng dựa trên những người đã ngồi
+  assignSeat(params: { players: P[]; roundIndex: number }): Partial<P>;
+
+  // Kiểm tra và áp dụng nước đi, trả về các field cần cập nhật (kể cả kết quả ván)
+  applyMove(params: { room: R; player: P; body: ActionBody }): Partial<R>;
+
+  // Ván hiện tại đã phân định xong hay chưa
+  isFinished(room: R): boolean;
+
+  // Chuẩn bị ván tiếp theo (đổi bên, reset bàn); `player` là người bấm kết thúc
+  nextRound(params: { room: R; player: P }): Partial<R> | Promise<Partial<R>>;
+
+  // Thao tác riêng của game ngoài create/join/spectate/move/finish
+  actions?: Record<string, GameAction<R, P>>;
+
+  // Game có máy chơi cùng: chọn nước cho máy `bot` nếu tới lượt nó, trả về body
+  // giống nước đi của người thật (đi qua applyMove); chưa tới lượt thì trả null
+  botMove?(params: { room: R; bot: P }): ActionBody | null | Promise<ActionBody | null>;
+}
+
+// Engine không kèm kiểu phòng cụ thể, dùng cho registry và những chỗ chạy qua mọi game
+export type AnyGameEngine = GameEngine<BaseGameRoom, Player>;
+
+export const BOT_LEVELS: BotLevel[] = ["easy", "medium", "hard"];
+
+export const BOT_NAMES: Record<BotLevel, string> = {
+  easy: "Máy (Dễ)",
+  medium: "Máy (Vừa)",
+  hard: "Máy (Khó)",
+};
+
+// Trạng thái vòng đời tính từ bàn chơi: đã phân định là finished, còn ghế trống là waiting
+export function roomStatus<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R
+): Exclude<RoomStatus, "abandoned"> {
+  if (engine.isFinished(room)) return "finished";
+  const maxPlayers = typeof room.maxPlayers === "number" ? room.maxPlayers : engine.maxPlayers;
+  return (room.players ?? []).length < maxPlayers ? "waiting" : "active";
+}
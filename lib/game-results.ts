@@ -0,0 +1,181 @@
+import clientPromise, { DB_NAME } from "@/lib/mongodb";
+import { normalize } from "@/lib/game-room";
+import { isRatedGameType, updateRatings } from "@/lib/player-ratings";
+
+// Điểm của một người trong ván: 1 thắng, 0.5 hoà, 0 thua
+export type ResultScore = 0 | 0.5 | 1;
+
+export type GameResultPlayer = {
+  name: string;
+  nameKey: string;
+  avatar?: string;
+  score: ResultScore;
+  bot?: string;
+};
+
+/**
+ * Kết quả của một ván đã kết thúc, lưu riêng khỏi document phòng (finish sẽ
+ * ghi đè bàn chơi) để làm hồ sơ người chơi, thống kê và tính Elo.
+ */
+export interface GameResultRecord {
+  gameType: string;
+  // Định danh ván, duy nhất trong gameType (cờ vua dùng id ván trong kho)
+  gameId: string;
+  roomId: string;
+  round: number;
+  players: GameResultPlayer[];
+  rated: boolean;
+  endedAt: Date;
+}
+
+export type GameStats = {
+  gameType: string;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+};
+
+export type HeadToHead = Omit<GameStats, "gameType"> & { opponent: string; bot?: string };
+
+const COLLECTION = "game_results";
+
+let indexesReady = false;
+
+async function getResultsCollection() {
+  const client = await clientPromise;
+  const col = client.db(DB_NAME).collection<GameResultRecord>(COLLECTION);
+  if (!indexesReady) {
+    // Mỗi ván chỉ được lưu một lần, kể cả khi finish bị gọi lại sau conflict
+    await col.createIndex({ gameType: 1, gameId: 1 }, { unique: true });
+    await col.createIndex({ "players.nameKey": 1, endedAt: -1 });
+    indexesReady = true;
+  }
+  return col;
+}
+
+/**
+ * Lưu kết quả ván và cập nhật Elo nếu game có xếp hạng. Ván có máy chơi cùng
+ * vẫn được lưu vào lịch sử nhưng không tính điểm. Trả về false nếu ván này đã được lưu.
+ */
+export async function recordGameResult(params: {
+  gameType: string;
+  gameId: string;
+  roomId: string;
+  round: number;
+  players: { name: string; avatar?: string; score: ResultScore; bot?: string }[];
+}): Promise<boolean> {
+  const { gameType, gameId, roomId, round } = params;
+  const players: GameResultPlayer[] = params.players.map((p) => ({
+    name: p.name,
+    nameKey: normalize(p.name),
+    score: p.score,
+    ...(p.avatar && { avatar: p.avatar }),
+    ...(p.bot && { bot: p.bot }),
+  }));
+  const rated =
+    isRatedGameType(gameType) && players.length === 2 && players.every((p) => !p.bot);
+
+  const col = await getResultsCollection();
+  const inserted = await col.updateOne(
+    { gameType, gameId },
+    { $setOnInsert: { gameType, gameId, roomId, round, players, rated, endedAt: new Date() } },
+    { upsert: true }
+  );
+  if (!inserted.upsertedId) return false;
+
+  if (rated && isRatedGameType(gameType)) await updateRatings(gameType, players);
+  return true;
+}
+
+export async function listPlayerResults(name: string, limit = 20): Promise<GameResultRecord[]> {
+  const col = await getResultsCollection();
+  return col
+    .find({ "players.nameKey": normalize(name) }, { projection: { _id: 0 } })
+    .sort({ endedAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), 100))
+    .toArray();
+}
+
+// Thắng / thua / hoà theo từng game, tính từ tất cả các ván đã lưu
+export async function getPlayerStats(name: string): Promise<GameStats[]> {
+  const nameKey = normalize(name);
+  const col = await getResultsCollection();
+  return col
+    .aggregate<GameStats>([
+      { $match: { "players.nameKey": nameKey } },
+      { $unwind: "$players" },
+      { $match: { "players.nameKey": nameKey } },
+      {
+        $group: {
+          _id: "$gameType",
+          games: { $sum: 1 },
+          wins: { $sum: { $cond: [{ $eq: ["$players.score", 1] }, 1, 0] } },
+          losses: { $sum: { $cond: [{ $eq: ["$players.score", 0] }, 1, 0] } },
+          draws: { $sum: { $cond: [{ $eq: ["$players.score", 0.5] }, 1, 0] } },
+        },
+      },
+      { $project: { _id: 0, gameType: "$_id", games: 1, wins: 1, losses: 1, draws: 1 } },
+      { $sort: { games: -1 } },
+    ])
+    .toArray();
+}
+
+// Thành tích đối đầu với từng đối thủ (mọi game), đối thủ gặp nhiều nhất đứng đầu
+export async function getHeadToHead(name: string, limit = 20): Promise<HeadToHead[]> {
+  const nameKey = normalize(name);
+  const col = await getResultsCollection();
+  return col
+    .aggregate<HeadToHead>([
+      { $match: { "players.nameKey": nameKey } },
+      {
+        $project: {
+          me: {
+            $arrayElemAt: [
+              { $filter: { input: "$players", cond: { $eq: ["$$this.nameKey", nameKey] } } },
+              0,
+            ],
+          },
+          opponent: {
+            $arrayElemAt: [
+              { $filter: { input: "$players", cond: { $ne: ["$$this.nameKey", nameKey] } } },
+              0,
+            ],
+          },
+        },
+      },
+      { $match: { opponent: { $exists: true } } },
+      {
+        $group: {
+          _id: "$opponent.nameKey",
+          opponent: { $last: "$opponent.name" },
+          bot: { $last: "$opponent.bot" },
+          games: { $sum: 1 },
+          wins: { $sum: { $cond: [{ $eq: ["$me.score", 1] }, 1, 0] } },
+          losses: { $sum: { $cond: [{ $eq: ["$me.score", 0] }, 1, 0] } },
+          draws: { $sum: { $cond: [{ $eq: ["$me.score", 0.5] }, 1, 0] } },
+        },
+      },
+      { $project: { _id: 0 } },
+      { $sort: { games: -1, opponent: 1 } },
+      { $limit: Math.min(Math.max(limit, 1), 100) },
+    ])
+    .toArray();
+}
+
+// Avatar người chơi dùng nhiều nhất qua các ván
+export async function getFavoriteAvatar(name: string): Promise<string | null> {
+  const nameKey = normalize(name);
+  const col = await getResultsCollection();
+  const [top] = await col
+    .aggregate<{ _id: string }>([
+      { $match: { "players.nameKey": nameKey } },
+      { $unwind: "$players" },
+      { $match: { "players.nameKey": nameKey, "players.avatar": { $exists: true } } },
+      { $group: { _id: "$players.avatar", count: { $sum: 1 } } },
+      { $sort: { count: -1 } },
+      { $limit: 1 },
+    ])
+    .toArray();
+  return top?._id ?? null;
+}
@@ -0,0 +1,508 @@
+import {
+  getRoom,
+  createRoom,
+  joinRoom,
+  spectateRoom,
+  updateRoom,
+  leaveRoom,
+  kickPlayer,
+  touchPlayer,
+  touchSpectator,
+  removeIdleSpectators,
+  leaveSpectators,
+  releaseIdleSeats,
+  findIdlePlayers,
+  roomHost,
+  issuePlayerToken,
+  findPlayerByToken,
+  normalize,
+  toPublicRoom,
+  hashRoomPassword,
+  createRoomInvite,
+  checkRoomAccess,
+  ROOM_VISIBILITIES,
+  RoomConflictError,
+  PlayerAuthError,
+  RoomPasswordError,
+  type BaseGameRoom,
+  type BotLevel,
+  type Player,
+  type RoomVisibility,
+} from "@/lib/game-room";
+import {
+  BOT_LEVELS,
+  BOT_NAMES,
+  GameRuleError,
+  roomStatus,
+  type ActionBody,
+  type GameEngine,
+} from "@/lib/game-engine";
+import { notifyLobby } from "@/lib/room-lobby";
+import { publishServerMessage } from "@/lib/mqtt-publisher";
+
+type RoomBody = ActionBody & {
+  action?: string;
+  roomId?: string;
+  playerName?: string;
+  avatar?: string;
+  token?: string;
+  visibility?: RoomVisibility;
+  password?: string;
+  invite?: string;
+  // Tên người chơi bị mời ra (action kick)
+  target?: string;
+};
+
+type SeatRelease = "leave" | "kick" | "timeout";
+
+// Người chơi không gửi heartbeat quá SEAT_GRACE_SECONDS giây thì bị nhả ghế
+const SEAT_GRACE_MS = (Number(process.env.SEAT_GRACE_SECONDS) || 120) * 1000;
+
+export function json(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function errorStatus(err: Error) {
+  if (err instanceof RoomConflictError) return 409;
+  if (err instanceof PlayerAuthError) return 401;
+  if (err instanceof GameRuleError) return 400;
+  if (err.message.includes("đầy")) return 403;
+  if (err.message.includes("không tồn tại")) return 404;
+  return 500;
+}
+
+// Chế độ hiển thị + mật khẩu khi tạo phòng
+function roomAccess(body: RoomBody): Partial<BaseGameRoom> {
+  const visibility = body.visibility ?? "public";
+  if (!ROOM_VISIBILITIES.includes(visibility)) {
+    throw new GameRuleError("Chế độ phòng không hợp lệ");
+  }
+  if (visibility !== "password") return { visibility, passwordHash: null };
+
+  const password = typeof body.password === "string" ? body.password : "";
+  if (password.length < 4 || password.length > 64) {
+    throw new GameRuleError("Mật khẩu phòng phải từ 4 đến 64 ký tự");
+  }
+  return { visibility, passwordHash: hashRoomPassword(password) };
+}
+
+// Xếp máy vào ghế trống; mỗi phòng chỉ có một máy
+function addBot<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R,
+  level: unknown
+): Partial<R> {
+  if (!engine.botMove) throw new GameRuleError("Game này chưa có máy để chơi cùng");
+  if (!BOT_LEVELS.includes(level as BotLevel)) {
+    throw new GameRuleError("Mức độ của máy không hợp lệ");
+  }
+
+  const players = (room.players ?? []) as P[];
+  if (players.some((p) => p.bot)) throw new GameRuleError("Phòng đã có máy chơi cùng");
+  if (players.length >= engine.maxPlayers) {
+    throw new Error(`Phòng đã đầy (tối đa ${engine.maxPlayers} người chơi)`);
+  }
+
+  const name = BOT_NAMES[level as BotLevel];
+  if (players.some((p) => normalize(p.name) === normalize(name))) {
+    throw new GameRuleError("Tên của máy trùng với người chơi trong phòng");
+  }
+
+  const seat = engine.assignSeat({
+    players,
+    roundIndex: (room.roundIndex as number | undefined) ?? 0,
+  });
+  const bot = { name, ...seat, bot: level as BotLevel } as P;
+  const updates: Partial<BaseGameRoom> = { players: [...players, bot] };
+  return updates as Partial<R>;
+}
+
+// Ghi thay đổi có kiểm tra version, kèm trạng thái vòng đời tính lại sau thay đổi
+function saveRoom<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R,
+  updates: Partial<R>
+): Promise<R> {
+  const status = roomStatus(engine, { ...room, ...updates });
+  return updateRoom<R>(engine.gameType, room.roomId, { ...updates, status }, room.version);
+}
+
+/**
+ * Kết thúc ván hiện tại trước khi nhả ghế, như bấm kết thúc: kết quả được lưu
+ * khi còn đủ người chơi và người vào sau bắt đầu từ bàn mới. `player` là người
+ * chịu xử thua nếu ván còn dang dở.
+ */
+async function endRoundBeforeRelease<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R,
+  player: P
+): Promise<R> {
+  return saveRoom(engine, room, await engine.nextRound({ room, player }));
+}
+
+// Báo người còn trong phòng qua `game/{roomId}/leave` và cập nhật sảnh chờ
+async function announceRelease<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  before: R,
+  after: R,
+  players: Player[],
+  reason: SeatRelease
+) {
+  for (const player of players) {
+    await publishServerMessage(`game/${after.roomId}/leave`, {
+      playerName: player.name,
+      reason,
+      room: toPublicRoom(after),
+    });
+  }
+  await notifyLobby(engine, before, after);
+}
+
+// Nhả ghế của người chơi đã mất kết nối quá thời gian chờ (trừ `except`)
+async function releaseIdlePlayers<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R,
+  except?: P
+): Promise<R> {
+  const idleBefore = new Date(Date.now() - SEAT_GRACE_MS);
+  const idle = findIdlePlayers(room.players as P[], idleBefore).filter(
+    (p) => !except || normalize(p.name) !== normalize(except.name)
+  );
+  if (idle.length === 0) return room;
+
+  await endRoundBeforeRelease(engine, room, idle[0]);
+  const { room: updatedRoom, released } = await releaseIdleSeats<R>(
+    engine.gameType,
+    room.roomId,
+    idleBefore
+  );
+  if (!updatedRoom || released.length === 0) return room;
+  await announceRelease(engine, room, updatedRoom, released, "timeout");
+  return updatedRoom;
+}
+
+// Tới lượt máy thì server đánh luôn, đi qua applyMove như nước của người thật
+async function playBotTurn<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R,
+  retried = false
+): Promise<R> {
+  if (!engine.botMove || engine.isFinished(room)) return room;
+
+  for (const bot of (room.players ?? []) as P[]) {
+    if (!bot.bot) continue;
+    const body = await engine.botMove({ room, bot });
+    if (!body) continue;
+    let updates: Partial<R>;
+    try {
+      updates = { ...engine.applyMove({ room, player: bot, body }), lastMoveBy: bot.name };
+    } catch (err) {
+      // Máy hết giờ trước khi kịp đi: vẫn lưu kết quả ván như nước của người thật
+      if (!(err instanceof GameRuleError) || !err.updates) throw err;
+      updates = err.updates as Partial<R>;
+    }
+    try {
+      return await saveRoom(engine, room, updates);
+    } catch (err) {
+      // Phòng đổi trong lúc máy nghĩ (vd người chơi xin thua): đọc lại và xét lại lượt
+      // máy một lần; nước của người chơi đã được lưu nên không trả 409 cho họ
+      if (!(err instanceof RoomConflictError)) throw err;
+      const latest = await getRoom<R>(engine.gameType, room.roomId);
+      if (!latest) throw err;
+      return retried ? latest : playBotTurn(engine, latest, true);
+    }
+  }
+  return room;
+}
+
+/**
+ * Phòng có mật khẩu chỉ cho người có ghế (token) hoặc có mật khẩu / link mời
+ * đọc. Gửi qua header để token và mật khẩu không nằm trong URL; thiếu thì ném
+ * RoomPasswordError.
+ */
+function checkRoomReadAccess(room: BaseGameRoom, req: Request) {
+  if (findPlayerByToken(room.players ?? [], req.headers.get("x-player-token"))) return;
+  checkRoomAccess(room, {
+    password: req.headers.get("x-room-password") ?? undefined,
+    invite: req.headers.get("x-room-invite") ?? undefined,
+  });
+}
+
+export async function handleRoomGet<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  req: Request
+) {
+  const { searchParams } = new URL(req.url);
+  const roomId = searchParams.get("roomId");
+
+  if (!roomId) {
+    return json({ error: "roomId is required" }, 400);
+  }
+
+  try {
+    const room = await getRoom<R>(engine.gameType, roomId);
+    if (room) checkRoomReadAccess(room, req);
+    return json({ room: toPublicRoom(room) });
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return json(
+      {
+        error: error.message,
+        ...(error instanceof RoomPasswordError && { passwordRequired: true }),
+      },
+      errorStatus(error)
+    );
+  }
+}
+
+/**
+ * Luồng phòng chung cho mọi game: create / join / spectate / move / finish /
+ * leave / kick / heartbeat, cộng các thao tác riêng trong `engine.actions`.
+ * Mọi thao tác của người chơi đều xác thực bằng token phiên và ghi có kiểm tra
+ * version.
+ */
+export async function handleRoomPost<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  req: Request
+) {
+  const body = (await req.json()) as RoomBody;
+  const { gameType, maxPlayers } = engine;
+
+  try {
+    if (body.action === "create") {
+      if (!body.playerName) return json({ error: "playerName is required" }, 400);
+      const baseId = body.roomId ?? Math.random().toString(36).slice(2, 8).toUpperCase();
+      const roomId = baseId.toUpperCase();
+
+      const existing = await getRoom<R>(gameType, roomId);
+      // Tạo lại phòng của chính mình (chỉ còn máy ngồi cùng) thì khép ván cũ như bấm kết
+      // thúc: lưu kho, tính kết quả / Elo và tăng roundIndex để mã ván mới không trùng
+      const owner = existing ? findPlayerByToken(existing.players as P[], body.token) : undefined;
+      const canRecreate = existing?.players.every((p) => p === owner || p.bot);
+      const wrapUp =
+        existing && owner && canRecreate
+          ? await engine.nextRound({ room: existing, player: owner })
+          : undefined;
+      const roundIndex =
+        (wrapUp?.roundIndex as number | undefined) ??
+        (existing?.roundIndex as number | undefined) ??
+        0;
+      const initialRoomData = {
+        ...engine.initialState({ roundIndex, body }),
+        ...roomAccess(body),
+      } as Partial<R>;
+      const seat = engine.assignSeat({ players: [], roundIndex });
+
+      const session = issuePlayerToken();
+      const room = await createRoom<R>({
+        gameType,
+        roomId,
+        playerName: body.playerName,
+        playerData: { ...seat, avatar: body.avatar, tokenHash: session.tokenHash },
+        maxPlayers,
+        initialRoomData,
+        token: body.token,
+      });
+
+      await notifyLobby(engine, existing, room);
+      const invite = createRoomInvite(room);
+      return json({
+        roomId,
+        room: toPublicRoom(room),
+        token: session.token,
+        ...(invite && { invite }),
+      });
+    }
+
+    if (!body.roomId) return json({ error: "roomId is required" }, 400);
+    const roomId = body.roomId.toUpperCase();
+
+    if (body.action === "spectate") {
+      if (!body.playerName) return json({ error: "playerName is required" }, 400);
+      const room = await spectateRoom<R>({
+        gameType,
+        roomId,
+        playerName: body.playerName,
+        playerData: { avatar: body.avatar },
+        password: body.password,
+        invite: body.invite,
+        token: body.token,
+        idleBefore: new Date(Date.now() - SEAT_GRACE_MS),
+      });
+      // Người xem phòng có mật khẩu giữ chữ ký mời để tải lại phòng mà không hỏi lại mật khẩu
+      const invite = createRoomInvite(room);
+      return json({ roomId, room: toPublicRoom(room), ...(invite && { invite }) });
+    }
+
+    if (body.action === "join") {
+      const playerName = body.playerName;
+      if (!playerName) return json({ error: "playerName is required" }, 400);
+
+      const existingRoom = await getRoom<R>(gameType, roomId);
+      if (!existingRoom) return json({ error: "Room không tồn tại" }, 404);
+
+      // Check max players before joining (người đã có ghế thì được vào lại)
+      let currentPlayers = (existingRoom.players ?? []) as P[];
+      const isSeated = currentPlayers.some(
+        (p) => normalize(p.name) === normalize(playerName)
+      );
+      if (!isSeated && currentPlayers.length >= maxPlayers) {
+        // Phòng đầy nhưng có người đã mất kết nối quá lâu thì nhả ghế đó trước
+        currentPlayers = (await releaseIdlePlayers(engine, existingRoom)).players as P[];
+        if (currentPlayers.length >= maxPlayers) {
+          return json({ error: `Phòng đã đầy (tối đa ${maxPlayers} người chơi)` }, 403);
+        }
+      }
+
+      const seat = engine.assignSeat({
+        players: currentPlayers,
+        roundIndex: (existingRoom.roundIndex as number | undefined) ?? 0,
+      });
+      const session = issuePlayerToken();
+      const room = await joinRoom<R>({
+        gameType,
+        roomId,
+        playerName,
+        playerData: { ...seat, avatar: body.avatar, tokenHash: session.tokenHash },
+        token: body.token,
+        password: body.password,
+        invite: body.invite,
+      });
+
+      await notifyLobby(engine, existingRoom, room);
+
+      // Vào lại ghế cũ thì client giữ token đang có, chỉ trả token khi vừa cấp
+      const issued = findPlayerByToken(room.players, session.token);
+      // Người đã có ghế cũng được phát link mời để gửi tiếp
+      const invite = createRoomInvite(room);
+      return json({
+        roomId,
+        room: toPublicRoom(room),
+        ...(issued && { token: session.token }),
+        ...(invite && { invite }),
+      });
+    }
+
+    const room = await getRoom<R>(gameType, roomId);
+    if (!room) return json({ error: "Room không tồn tại" }, 404);
+
+    const customAction = body.action ? engine.actions?.[body.action] : undefined;
+    const requiresPlayer =
+      body.action === "move" || body.action === "finish" || customAction?.requiresPlayer;
+    const player = findPlayerByToken(room.players as P[], body.token);
+    if (requiresPlayer && !player) {
+      return json({ error: "Phiên chơi không hợp lệ, hãy vào lại phòng" }, 401);
+    }
+    // Mọi thao tác đã xác thực đều tính là còn kết nối, không riêng heartbeat. Ghi cả
+    // vào bản đang giữ để updates dựng từ room.players không ghi đè mốc cũ lên DB
+    if (player) {
+      player.lastSeenAt = await touchPlayer({ gameType, roomId, token: body.token });
+    }
+
+    if (body.action === "heartbeat") {
+      // Người xem không có token, báo còn xem theo tên
+      if (!player && !(await touchSpectator({ gameType, roomId, playerName: body.playerName }))) {
+        return json({ error: "Phiên chơi không hợp lệ, hãy vào lại phòng" }, 401);
+      }
+      await removeIdleSpectators(gameType, roomId, new Date(Date.now() - SEAT_GRACE_MS));
+      const latest = (await getRoom<R>(gameType, roomId)) ?? room;
+      const updatedRoom = player ? await releaseIdlePlayers(engine, latest, player) : latest;
+      return json({ roomId, room: toPublicRoom(updatedRoom) });
+    }
+
+    if (body.action === "leave") {
+      if (!player) {
+        // Người xem rời phòng: không có ghế nên chỉ bỏ khỏi danh sách người xem
+        const updatedRoom = await leaveSpectators<R>({
+          gameType,
+          roomId,
+          playerName: body.playerName,
+        });
+        if (!updatedRoom) {
+          return json({ error: "Phiên chơi không hợp lệ, hãy vào lại phòng" }, 401);
+        }
+        return json({ roomId, room: toPublicRoom(updatedRoom) });
+      }
+      await endRoundBeforeRelease(engine, room, player);
+      const { room: updatedRoom, player: released } = await leaveRoom<R>({
+        gameType,
+        roomId,
+        token: body.token,
+      });
+      await announceRelease(engine, room, updatedRoom, [released], "leave");
+      return json({ roomId, room: toPublicRoom(updatedRoom) });
+    }
+
+    if (body.action === "kick") {
+      if (!player) return json({ error: "Phiên chơi không hợp lệ, hãy vào lại phòng" }, 401);
+      if (!body.target) return json({ error: "target is required" }, 400);
+      if (normalize(roomHost(room) ?? "") !== normalize(player.name)) {
+        return json({ error: "Chỉ chủ phòng mới được mời người chơi ra" }, 401);
+      }
+      const target = (room.players as P[]).find(
+        (p) => normalize(p.name) === normalize(body.target!)
+      );
+      if (!target) return json({ error: "Người chơi không tồn tại trong phòng" }, 404);
+      if (target === player) {
+        return json({ error: "Không thể tự mời mình ra, hãy rời phòng" }, 400);
+      }
+      // Chủ phòng kết thúc ván: mời ra giữa ván thì chủ phòng chịu thua, không lợi dụng được
+      await endRoundBeforeRelease(engine, room, player);
+      const { room: updatedRoom, player: released } = await kickPlayer<R>({
+        gameType,
+        roomId,
+        token: body.token,
+        playerName: target.name,
+      });
+      await announceRelease(engine, room, updatedRoom, [released], "kick");
+      return json({ roomId, room: toPublicRoom(updatedRoom) });
+    }
+
+    let updates: Partial<R>;
+    if (body.action === "move") {
+      if (engine.isFinished(room)) return json({ error: "Ván đấu đã kết thúc" }, 400);
+      try {
+        updates = {
+          ...engine.applyMove({ room, player: player!, body }),
+          lastMoveBy: player!.name,
+        };
+      } catch (err) {
+        // Lỗi luật kèm trạng thái cần lưu (vd hết giờ): lưu lại rồi mới báo lỗi
+        if (err instanceof GameRuleError && err.updates) {
+          const flaggedRoom = await saveRoom(engine, room, err.updates as Partial<R>);
+          await notifyLobby(engine, room, flaggedRoom);
+          return json({ error: err.message, roomId, room: toPublicRoom(flaggedRoom) }, 400);
+        }
+        throw err;
+      }
+    } else if (body.action === "finish") {
+      updates = await engine.nextRound({ room, player: player! });
+    } else if (body.action === "add-bot") {
+      if (!player) return json({ error: "Phiên chơi không hợp lệ, hãy vào lại phòng" }, 401);
+      updates = addBot(engine, room, body.level);
+    } else if (customAction) {
+      updates = await customAction.run({ room, player, body });
+    } else {
+      return json({ error: "Invalid action" }, 400);
+    }
+
+    const updatedRoom = await playBotTurn(
+      engine,
+      await saveRoom(engine, room, updates)
+    );
+    await notifyLobby(engine, room, updatedRoom);
+    return json({ roomId, room: toPublicRoom(updatedRoom) });
+  } catch (err) {
+    const error = err instanceof Error ? err : new Error(String(err));
+    return json(
+      {
+        error: error.message,
+        ...(error instanceof RoomPasswordError && { passwordRequired: true }),
+      },
+      errorStatus(error)
+    );
+  }
+}
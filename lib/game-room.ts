@@ -1,10 +1,43 @@
-import clientPromise from "@/lib/mongodb";
-import { Filter } from "mongodb";
+import clientPromise, { DB_NAME } from "@/lib/mongodb";
+import {
+  createHash,
+  createHmac,
+  randomBytes,
+  scryptSync,
+  timingSafeEqual,
+} from "crypto";
+import { Db, Filter, OptionalUnlessRequiredId, UpdateFilter, WithoutId } from "mongodb";
+
+// Mức độ của người chơi máy
+export type BotLevel = "easy" | "medium" | "hard";
+
+// public: hiện ở sảnh chờ; unlisted: chỉ vào bằng mã; password: cần mật khẩu hoặc link mời
+export type RoomVisibility = "public" | "unlisted" | "password";
+
+export const ROOM_VISIBILITIES: RoomVisibility[] = ["public", "unlisted", "password"];
+
+/**
+ * Vòng đời phòng: waiting (còn ghế trống) -> active (đủ người) -> finished
+ * (ván đã phân định, chờ bấm kết thúc). Phòng lâu không ai động tới bị job dọn
+ * dẹp đánh dấu abandoned; có người quay lại đi tiếp thì về lại active.
+ */
+export const ROOM_STATUSES = ["waiting", "active", "finished", "abandoned"] as const;
+export type RoomStatus = (typeof ROOM_STATUSES)[number];
+
+export function isRoomStatus(value: unknown): value is RoomStatus {
+  return ROOM_STATUSES.includes(value as RoomStatus);
+}
 
 export type Player = {
   name: string;
   color?: string;
   avatar?: string;
+  // sha256 của token phiên; chỉ lưu trong DB, không bao giờ trả về client
+  tokenHash?: string;
+  // Có giá trị nếu ghế này do máy chơi (server tự đánh thay)
+  bot?: BotLevel;
+  // Lần cuối client của người chơi báo còn kết nối (heartbeat), để nhả ghế khi mất kết nối
+  lastSeenAt?: Date;
   [key: string]: unknown;
 };
 
@@ -12,22 +45,197 @@ export interface BaseGameRoom {
   roomId: string;
   gameType: string;
   players: Player[];
+  // Người xem: không chiếm ghế, không được đi quân
+  spectators?: Player[];
   maxPlayers: number;
+  // Chủ phòng (người tạo, rời phòng thì chuyển cho người còn lại); phòng cũ lấy người chơi đầu tiên
+  hostName?: string | null;
+  // Phòng cũ chưa có field này thì tính lại từ người chơi + luật game
+  status?: RoomStatus;
+  // Phòng cũ chưa có field này được coi như public
+  visibility?: RoomVisibility;
+  // scrypt "salt:hash" của mật khẩu phòng; chỉ lưu trong DB
+  passwordHash?: string | null;
+  // Khoá ký link mời riêng của phòng, đổi khi tạo lại phòng; chỉ lưu trong DB
+  inviteKey?: string;
+  version: number;
   createdAt: Date;
   updatedAt: Date;
   [key: string]: unknown;
 }
 
-const DB_NAME = "gamewithsangle";
-const normalize = (value: string) => value.trim().toLowerCase();
+// Giới hạn danh sách người xem để document phòng không phình ra vô hạn
+const MAX_SPECTATORS = 50;
+// Phòng không được cập nhật trong ROOM_TTL_DAYS ngày bị MongoDB tự xoá (TTL index)
+const ROOM_TTL_SECONDS = (Number(process.env.ROOM_TTL_DAYS) || 7) * 24 * 60 * 60;
+// Khoá so khớp tên người chơi, dùng chung cho phòng, Elo, lịch sử ván và tìm trận
+export const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Ném ra khi phòng đã bị người khác cập nhật giữa lúc đọc và ghi
+ * (version trong DB không còn khớp). Route trả về 409 để client tải lại.
+ */
+export class RoomConflictError extends Error {
+  constructor(message = "Phòng vừa được cập nhật, hãy tải lại và thử lại") {
+    super(message);
+    this.name = "RoomConflictError";
+  }
+}
+
+/**
+ * Ném ra khi request không chứng minh được là người chơi có ghế trong phòng
+ * (thiếu token hoặc token không khớp). Route trả về 401.
+ */
+export class PlayerAuthError extends Error {
+  constructor(message = "Phiên chơi không hợp lệ, hãy vào lại phòng") {
+    super(message);
+    this.name = "PlayerAuthError";
+  }
+}
+
+/**
+ * Ném ra khi vào phòng có mật khẩu mà thiếu / sai mật khẩu và không có link
+ * mời hợp lệ. Route trả về 401 kèm `passwordRequired` để client hỏi mật khẩu.
+ */
+export class RoomPasswordError extends PlayerAuthError {
+  constructor(message = "Phòng có mật khẩu, hãy nhập mật khẩu hoặc dùng link mời") {
+    super(message);
+    this.name = "RoomPasswordError";
+  }
+}
+
+function hashPlayerToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Cấp token phiên mới: client giữ `token`, Player trong DB chỉ lưu `tokenHash`
+export function issuePlayerToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashPlayerToken(token) };
+}
+
+// Tìm người chơi sở hữu token, thay cho việc tin vào playerName client gửi lên
+export function findPlayerByToken<P extends Player>(
+  players: P[],
+  token: string | undefined | null
+): P | undefined {
+  if (!token) return undefined;
+  const hash = Buffer.from(hashPlayerToken(token), "hex");
+  return players.find((p) => {
+    if (typeof p.tokenHash !== "string") return false;
+    const stored = Buffer.from(p.tokenHash, "hex");
+    return stored.length === hash.length && timingSafeEqual(stored, hash);
+  });
+}
+
+export function hashRoomPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const hash = scryptSync(password, salt, 64).toString("hex");
+  return `${salt}:${hash}`;
+}
+
+function verifyRoomPassword(password: string | undefined, stored: string) {
+  const [salt, hash] = stored.split(":");
+  if (!password || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, salt, expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+function inviteSignature(room: BaseGameRoom) {
+  return createHmac("sha256", room.inviteKey ?? "")
+    .update(`${room.gameType}:${room.roomId}:${new Date(room.createdAt).getTime()}`)
+    .digest("base64url");
+}
+
+// Chữ ký cho link mời (?invite=), chỉ phòng có mật khẩu mới cần
+export function createRoomInvite(room: BaseGameRoom): string | undefined {
+  if (room.visibility !== "password" || !room.inviteKey) return undefined;
+  return inviteSignature(room);
+}
+
+// Phòng có mật khẩu: cần mật khẩu đúng hoặc link mời do server ký; phòng khác luôn cho vào
+export function checkRoomAccess(
+  room: BaseGameRoom,
+  access: { password?: string; invite?: string }
+) {
+  if (room.visibility !== "password" || !room.passwordHash) return;
+  if (access.invite && room.inviteKey) {
+    const expected = Buffer.from(inviteSignature(room));
+    const actual = Buffer.from(access.invite);
+    if (actual.length === expected.length && timingSafeEqual(actual, expected)) return;
+  }
+  if (verifyRoomPassword(access.password, room.passwordHash)) return;
+  throw new RoomPasswordError(
+    access.password ? "Sai mật khẩu phòng" : undefined
+  );
+}
+
+// Bỏ tokenHash, mật khẩu và khoá mời trước khi trả phòng về client (kể cả khi client publish lại qua MQTT)
+export function toPublicRoom<T extends BaseGameRoom>(room: T | null): T | null {
+  if (!room) return null;
+  const strip = (player: Player) => {
+    const copy = { ...player };
+    delete copy.tokenHash;
+    return copy;
+  };
+  const publicRoom = { ...room };
+  delete publicRoom.passwordHash;
+  delete publicRoom.inviteKey;
+  return {
+    ...publicRoom,
+    players: (room.players ?? []).map(strip),
+    ...(room.spectators && { spectators: room.spectators.map(strip) }),
+  };
+}
+
+const indexedCollections = new Set<string>();
+
+async function ensureTtlIndex(db: Db, name: string) {
+  try {
+    await db
+      .collection(name)
+      .createIndex({ updatedAt: 1 }, { expireAfterSeconds: ROOM_TTL_SECONDS });
+  } catch (err) {
+    // Index đã có với TTL khác (đổi ROOM_TTL_DAYS): cập nhật tại chỗ thay vì tạo lại
+    if ((err as { code?: number }).code !== 85) throw err;
+    await db.command({
+      collMod: name,
+      index: { keyPattern: { updatedAt: 1 }, expireAfterSeconds: ROOM_TTL_SECONDS },
+    });
+  }
+}
+
+async function getRoomsCollection<T extends BaseGameRoom>(gameType: string) {
+  const client = await clientPromise;
+  const db = client.db(DB_NAME);
+  const name = `${gameType}_rooms`;
+  const col = db.collection<T>(name);
+  if (!indexedCollections.has(name)) {
+    // roomId unique để hai request tạo cùng mã phòng không sinh ra hai document
+    await col.createIndex({ roomId: 1 }, { unique: true });
+    await ensureTtlIndex(db, name);
+    indexedCollections.add(name);
+  }
+  return col;
+}
+
+// Document cũ chưa có version được coi như version 0
+function versionOf(room: BaseGameRoom | null): number {
+  return typeof room?.version === "number" ? room.version : 0;
+}
+
+function versionFilter(roomId: string, version: number) {
+  return version
+    ? { roomId, version }
+    : { roomId, version: { $in: [0, null] } };
+}
 
 export async function getRoom<T extends BaseGameRoom>(
   gameType: string,
   roomId: string
 ): Promise<T | null> {
-  const client = await clientPromise;
-  const db = client.db(DB_NAME);
-  const col = db.collection<T>(`${gameType}_rooms`);
+  const col = await getRoomsCollection<T>(gameType);
   const result = await col.findOne({ roomId } as Filter<T>);
   return result as T | null;
 }
@@ -39,6 +247,8 @@ export async function createRoom<T extends BaseGameRoom>(params: {
   playerData?: Partial<Player>;
   initialRoomData?: Partial<T>;
   maxPlayers?: number;
+  // Token của người đang ngồi trong phòng, bắt buộc khi tạo lại phòng đã có chủ
+  token?: string;
 }): Promise<T> {
   const {
     gameType,
@@ -47,34 +257,63 @@ export async function createRoom<T extends BaseGameRoom>(params: {
     playerData = {},
     initialRoomData = {},
     maxPlayers = 2,
+    token,
   } = params;
 
-  const client = await clientPromise;
-  const db = client.db(DB_NAME);
-  const col = db.collection<T>(`${gameType}_rooms`);
+  const col = await getRoomsCollection<T>(gameType);
   const now = new Date();
 
-  const existing = await col.findOne({ roomId } as Filter<T>);
+  const existing = (await col.findOne({ roomId } as Filter<T>)) as T | null;
+  const existingPlayers = existing?.players ?? [];
+  const owner = findPlayerByToken(existingPlayers, token);
+  if (existingPlayers.some((p) => p.tokenHash) && !owner) {
+    throw new PlayerAuthError("Mã phòng đã có người sử dụng");
+  }
+  // Tạo lại phòng không được âm thầm xoá ghế của người khác, họ phải rời hoặc bị mời ra trước
+  if (existingPlayers.some((p) => p !== owner && !p.bot)) {
+    throw new PlayerAuthError("Phòng còn người chơi khác, hãy rời phòng trước khi tạo lại");
+  }
   const player: Player = {
     name: playerName,
     ...playerData,
+    lastSeenAt: now,
   };
 
   const newRoom: T = {
     roomId,
     gameType,
     players: [player],
+    spectators: [] as Player[],
     maxPlayers,
+    hostName: playerName,
+    status: "waiting",
+    visibility: "public",
+    passwordHash: null,
+    // Khoá mới mỗi lần tạo (lại) phòng, link mời của phòng cũ hết hiệu lực
+    inviteKey: randomBytes(16).toString("base64url"),
+    version: versionOf(existing) + 1,
     createdAt: existing?.createdAt ?? now,
     updatedAt: now,
     ...initialRoomData,
   } as T;
 
-  await col.updateOne(
-    { roomId } as Filter<T>,
-    { $set: newRoom } as any,
-    { upsert: true }
-  );
+  if (existing) {
+    // Thay cả document: $set sẽ giữ lại field của ván cũ mà trạng thái mới không liệt kê
+    // (kết quả, đường thắng, lời mời hoà...) khiến bàn mới vẫn bị coi là đã kết thúc
+    const result = await col.replaceOne(
+      versionFilter(roomId, versionOf(existing)) as Filter<T>,
+      newRoom as WithoutId<T>
+    );
+    if (result.matchedCount === 0) throw new RoomConflictError();
+  } else {
+    try {
+      await col.insertOne(newRoom as OptionalUnlessRequiredId<T>);
+    } catch (err) {
+      // Duplicate key: phòng cùng mã vừa được tạo bởi request khác
+      if ((err as { code?: number }).code === 11000) throw new RoomConflictError();
+      throw err;
+    }
+  }
 
   const room = await col.findOne({ roomId } as Filter<T>);
   if (!room) throw new Error("Failed to create room");
@@ -87,6 +326,11 @@ export async function joinRoom<T extends BaseGameRoom>(params: {
   playerName: string;
   playerData?: Partial<Player>;
   assignColor?: (existingPlayers: Player[]) => string | undefined;
+  // Token của phiên trước, dùng khi người chơi đã có ghế vào lại phòng
+  token?: string;
+  // Phòng có mật khẩu: mật khẩu hoặc chữ ký link mời
+  password?: string;
+  invite?: string;
 }): Promise<T> {
   const {
     gameType,
@@ -94,33 +338,58 @@ export async function joinRoom<T extends BaseGameRoom>(params: {
     playerName,
     playerData = {},
     assignColor,
+    token,
+    password,
+    invite,
   } = params;
 
-  const client = await clientPromise;
-  const db = client.db(DB_NAME);
-  const col = db.collection<T>(`${gameType}_rooms`);
+  const col = await getRoomsCollection<T>(gameType);
   const now = new Date();
 
-  const room = await col.findOne({ roomId } as Filter<T>);
+  const room = (await col.findOne({ roomId } as Filter<T>)) as T | null;
   if (!room) {
     throw new Error("Room không tồn tại");
   }
 
-  // Check max players
   const currentPlayers = Array.isArray(room.players) ? [...room.players] : [];
-  const maxPlayers = typeof room.maxPlayers === "number" ? room.maxPlayers : 2;
-  if (currentPlayers.length >= maxPlayers) {
-    throw new Error(
-      `Phòng đã đầy (tối đa ${maxPlayers} người chơi)`
-    );
-  }
 
   // Check if player already exists
   const exists = currentPlayers.find(
     (p) => normalize(p.name) === normalize(playerName)
   );
 
-  if (!exists) {
+  if (exists?.tokenHash || exists?.bot) {
+    // Vào lại ghế cũ phải có token của phiên trước, không chỉ trùng tên
+    if (!findPlayerByToken([exists], token)) {
+      throw new PlayerAuthError("Tên này đã có người chơi trong phòng");
+    }
+    return room;
+  }
+
+  checkRoomAccess(room, { password, invite });
+
+  if (exists) {
+    // Người chơi cũ chưa có token (dữ liệu trước khi có phiên): người vào lại đầu tiên nhận ghế
+    const claimed = currentPlayers.map((p) =>
+      p === exists ? { ...p, tokenHash: playerData.tokenHash, lastSeenAt: now } : p
+    );
+    const result = await col.updateOne(
+      versionFilter(roomId, versionOf(room)) as Filter<T>,
+      {
+        $set: { players: claimed, updatedAt: now },
+        $inc: { version: 1 },
+      } as unknown as UpdateFilter<T>
+    );
+    if (result.matchedCount === 0) throw new RoomConflictError();
+  } else {
+    // Check max players
+    const maxPlayers = typeof room.maxPlayers === "number" ? room.maxPlayers : 2;
+    if (currentPlayers.length >= maxPlayers) {
+      throw new Error(
+        `Phòng đã đầy (tối đa ${maxPlayers} người chơi)`
+      );
+    }
+
     let color: string | undefined;
     if (assignColor) {
       color = assignColor(currentPlayers);
@@ -130,12 +399,30 @@ export async function joinRoom<T extends BaseGameRoom>(params: {
       name: playerName,
       ...(color && { color }),
       ...playerData,
+      lastSeenAt: now,
     });
 
-    await col.updateOne(
-      { roomId } as Filter<T>,
-      { $set: { players: currentPlayers, updatedAt: now } } as any
+    // Người đang xem được nhận ghế thì rời danh sách người xem
+    const spectators = (room.spectators ?? []).filter(
+      (p) => normalize(p.name) !== normalize(playerName)
     );
+
+    // Đủ người thì phòng chuyển sang active (ván đã phân định thì giữ finished)
+    const status: RoomStatus =
+      room.status === "finished"
+        ? "finished"
+        : currentPlayers.length >= maxPlayers
+        ? "active"
+        : "waiting";
+
+    const result = await col.updateOne(
+      versionFilter(roomId, versionOf(room)) as Filter<T>,
+      {
+        $set: { players: currentPlayers, spectators, status, updatedAt: now },
+        $inc: { version: 1 },
+      } as unknown as UpdateFilter<T>
+    );
+    if (result.matchedCount === 0) throw new RoomConflictError();
   }
 
   const updatedRoom = await col.findOne({ roomId } as Filter<T>);
@@ -145,20 +432,303 @@ export async function joinRoom<T extends BaseGameRoom>(params: {
   return updatedRoom as T;
 }
 
+/**
+ * Vào phòng với tư cách người xem. Không bao giờ chiếm ghế nên vẫn vào được
+ * khi phòng đã đủ người chơi; người đã có ghế gọi thì giữ nguyên. Người xem
+ * không báo còn kết nối từ `idleBefore` bị bỏ khỏi danh sách trước khi thêm.
+ */
+export async function spectateRoom<T extends BaseGameRoom>(params: {
+  gameType: string;
+  roomId: string;
+  playerName: string;
+  playerData?: Partial<Player>;
+  password?: string;
+  invite?: string;
+  // Token của người đang có ghế, thay cho mật khẩu khi họ chuyển sang xem
+  token?: string;
+  idleBefore: Date;
+}): Promise<T> {
+  const { gameType, roomId, playerName, playerData = {}, password, invite, token, idleBefore } =
+    params;
+
+  const col = await getRoomsCollection<T>(gameType);
+  const now = new Date();
+
+  const room = (await col.findOne({ roomId } as Filter<T>)) as T | null;
+  if (!room) {
+    throw new Error("Room không tồn tại");
+  }
+
+  const isPlayer = (room.players ?? []).some(
+    (p) => normalize(p.name) === normalize(playerName)
+  );
+  const isSpectator = (room.spectators ?? []).some(
+    (p) => normalize(p.name) === normalize(playerName)
+  );
+
+  // Trùng tên người chơi / người xem không thay được mật khẩu, trừ khi có token của ghế
+  if (!findPlayerByToken(room.players ?? [], token)) checkRoomAccess(room, { password, invite });
+  if (isPlayer || isSpectator) return room;
+
+  const spectators = activeSpectators(room.spectators ?? [], idleBefore);
+  if (spectators.length >= MAX_SPECTATORS) {
+    throw new Error(`Phòng đã đầy người xem (tối đa ${MAX_SPECTATORS} người)`);
+  }
+  spectators.push({ name: playerName, ...playerData, lastSeenAt: now });
+  const result = await col.updateOne(
+    versionFilter(roomId, versionOf(room)) as Filter<T>,
+    {
+      $set: { spectators, updatedAt: now },
+      $inc: { version: 1 },
+    } as unknown as UpdateFilter<T>
+  );
+  if (result.matchedCount === 0) throw new RoomConflictError();
+
+  const updatedRoom = await col.findOne({ roomId } as Filter<T>);
+  if (!updatedRoom) {
+    throw new Error("Failed to update room");
+  }
+  return updatedRoom as T;
+}
+
+// Chủ phòng hiện tại; phòng cũ chưa lưu hostName thì là người thật vào đầu tiên
+export function roomHost(room: BaseGameRoom): string | null {
+  if (room.hostName) return room.hostName;
+  return (room.players ?? []).find((p) => !p.bot)?.name ?? null;
+}
+
+/**
+ * Bỏ các ghế có tên trong `names` khỏi phòng (ghi có kiểm tra version). Chủ
+ * phòng rời thì người thật còn lại nhận quyền chủ phòng; không còn người thật
+ * nào thì bỏ luôn máy, phòng trống để job dọn dẹp xoá.
+ */
+async function releaseSeats<T extends BaseGameRoom>(room: T, names: string[]): Promise<T> {
+  const col = await getRoomsCollection<T>(room.gameType);
+  const released = new Set(names.map(normalize));
+  let players = (room.players ?? []).filter((p) => !released.has(normalize(p.name)));
+  if (!players.some((p) => !p.bot)) players = [];
+
+  const host = roomHost(room);
+  const hostName =
+    host && !released.has(normalize(host))
+      ? host
+      : players.find((p) => !p.bot)?.name ?? null;
+  // Ghế vừa trống nên phòng về waiting (ván đã phân định thì giữ finished)
+  const status: RoomStatus = room.status === "finished" ? "finished" : "waiting";
+
+  const result = await col.updateOne(
+    versionFilter(room.roomId, versionOf(room)) as Filter<T>,
+    {
+      $set: { players, hostName, status, updatedAt: new Date() },
+      $inc: { version: 1 },
+    } as unknown as UpdateFilter<T>
+  );
+  if (result.matchedCount === 0) throw new RoomConflictError();
+
+  const updatedRoom = await col.findOne({ roomId: room.roomId } as Filter<T>);
+  if (!updatedRoom) throw new Error("Room không tồn tại");
+  return updatedRoom as T;
+}
+
+async function getSeatedPlayer<T extends BaseGameRoom>(
+  gameType: string,
+  roomId: string,
+  token: string | undefined
+): Promise<{ room: T; player: Player }> {
+  const room = await getRoom<T>(gameType, roomId);
+  if (!room) throw new Error("Room không tồn tại");
+  const player = findPlayerByToken(room.players ?? [], token);
+  if (!player) throw new PlayerAuthError();
+  return { room, player };
+}
+
+// Người chơi tự rời phòng, nhả ghế cho người khác vào
+export async function leaveRoom<T extends BaseGameRoom>(params: {
+  gameType: string;
+  roomId: string;
+  token?: string;
+}): Promise<{ room: T; player: Player }> {
+  const { room, player } = await getSeatedPlayer<T>(params.gameType, params.roomId, params.token);
+  return { room: await releaseSeats(room, [player.name]), player };
+}
+
+// Chủ phòng mời một người chơi (hoặc máy) ra khỏi phòng
+export async function kickPlayer<T extends BaseGameRoom>(params: {
+  gameType: string;
+  roomId: string;
+  token?: string;
+  playerName: string;
+}): Promise<{ room: T; player: Player }> {
+  const { room, player: requester } = await getSeatedPlayer<T>(
+    params.gameType,
+    params.roomId,
+    params.token
+  );
+  const host = roomHost(room);
+  if (!host || normalize(host) !== normalize(requester.name)) {
+    throw new PlayerAuthError("Chỉ chủ phòng mới được mời người chơi ra");
+  }
+  const target = (room.players ?? []).find(
+    (p) => normalize(p.name) === normalize(params.playerName)
+  );
+  if (!target) throw new Error("Người chơi không tồn tại trong phòng");
+  if (target === requester) throw new PlayerAuthError("Không thể tự mời mình ra, hãy rời phòng");
+  return { room: await releaseSeats(room, [target.name]), player: target };
+}
+
+/**
+ * Ghi nhận client của người chơi còn kết nối. Không tăng version (không phải
+ * thay đổi ván chơi) nên không làm request đi nước của đối thủ bị 409.
+ */
+export async function touchPlayer(params: {
+  gameType: string;
+  roomId: string;
+  token?: string;
+}): Promise<Date> {
+  const { player } = await getSeatedPlayer(params.gameType, params.roomId, params.token);
+  const col = await getRoomsCollection(params.gameType);
+  const now = new Date();
+  await col.updateOne(
+    { roomId: params.roomId, "players.tokenHash": player.tokenHash },
+    { $set: { "players.$.lastSeenAt": now, updatedAt: now } }
+  );
+  return now;
+}
+
+// Người chơi có phiên không báo còn kết nối từ `idleBefore`; máy và dữ liệu cũ chưa có heartbeat thì bỏ qua
+export function findIdlePlayers<P extends Player>(players: P[], idleBefore: Date): P[] {
+  return players.filter(
+    (p) => !p.bot && p.tokenHash && p.lastSeenAt instanceof Date && p.lastSeenAt < idleBefore
+  );
+}
+
+/**
+ * Nhả ghế của người chơi không báo còn kết nối từ `idleBefore` trở về trước,
+ * đọc lại phòng mới nhất nên người vừa gửi heartbeat không bị nhả nhầm.
+ */
+export async function releaseIdleSeats<T extends BaseGameRoom>(
+  gameType: string,
+  roomId: string,
+  idleBefore: Date
+): Promise<{ room: T | null; released: Player[] }> {
+  const room = await getRoom<T>(gameType, roomId);
+  const released = findIdlePlayers(room?.players ?? [], idleBefore);
+  if (!room || released.length === 0) return { room, released: [] };
+  return { room: await releaseSeats(room, released.map((p) => p.name)), released };
+}
+
+// Người xem còn báo kết nối từ `idleBefore`; người xem cũ chưa có heartbeat coi như đã rời
+function activeSpectators(spectators: Player[], idleBefore: Date) {
+  return spectators.filter((p) => p.lastSeenAt instanceof Date && p.lastSeenAt >= idleBefore);
+}
+
+function findSpectator(room: BaseGameRoom | null, playerName: string | undefined) {
+  if (!room || !playerName) return undefined;
+  return (room.spectators ?? []).find((p) => normalize(p.name) === normalize(playerName));
+}
+
+/**
+ * Người xem báo còn đang xem. Người xem không có token nên nhận theo tên, chỉ
+ * ảnh hưởng tới số người xem; trả về false nếu tên không có trong danh sách.
+ * Như touchPlayer, không tăng version.
+ */
+export async function touchSpectator(params: {
+  gameType: string;
+  roomId: string;
+  playerName?: string;
+}): Promise<boolean> {
+  const spectator = findSpectator(
+    await getRoom(params.gameType, params.roomId),
+    params.playerName
+  );
+  if (!spectator) return false;
+  const col = await getRoomsCollection(params.gameType);
+  await col.updateOne(
+    { roomId: params.roomId, "spectators.name": spectator.name },
+    { $set: { "spectators.$.lastSeenAt": new Date() } }
+  );
+  return true;
+}
+
+// Bỏ người xem không báo còn kết nối từ `idleBefore`, để số người xem là số đang xem thật
+export async function removeIdleSpectators(gameType: string, roomId: string, idleBefore: Date) {
+  const col = await getRoomsCollection(gameType);
+  await col.updateOne({ roomId }, {
+    $pull: { spectators: { lastSeenAt: { $not: { $gte: idleBefore } } } },
+  } as unknown as UpdateFilter<BaseGameRoom>);
+}
+
+// Người xem rời phòng; null nếu tên không có trong danh sách người xem
+export async function leaveSpectators<T extends BaseGameRoom>(params: {
+  gameType: string;
+  roomId: string;
+  playerName?: string;
+}): Promise<T | null> {
+  const room = await getRoom<T>(params.gameType, params.roomId);
+  const spectator = findSpectator(room, params.playerName);
+  if (!spectator) return null;
+  const col = await getRoomsCollection<T>(params.gameType);
+  await col.updateOne({ roomId: params.roomId } as Filter<T>, {
+    $pull: { spectators: { name: spectator.name } },
+  } as unknown as UpdateFilter<T>);
+  return getRoom<T>(params.gameType, params.roomId);
+}
+
+/**
+ * Các phòng công khai còn người chơi, mới nhất trước. `since`: chỉ lấy phòng
+ * được cập nhật từ đó trở lại; `status`: chỉ lấy phòng đã lưu trạng thái đó
+ * (phòng cũ chưa lưu status vẫn được trả về để người gọi tự tính).
+ */
+export async function listActiveRooms<T extends BaseGameRoom>(
+  gameType: string,
+  params: { since?: Date; status?: RoomStatus; limit: number }
+): Promise<T[]> {
+  const col = await getRoomsCollection<T>(gameType);
+  const rooms = await col
+    .find({
+      players: { $exists: true, $not: { $size: 0 } },
+      ...(params.since && { updatedAt: { $gte: params.since } }),
+      ...(params.status && {
+        $or: [{ status: params.status }, { status: { $exists: false } }],
+      }),
+      // Phòng unlisted / có mật khẩu không hiện ở sảnh chờ
+      visibility: { $nin: ["unlisted", "password"] },
+    } as Filter<T>)
+    .sort({ updatedAt: -1 })
+    .limit(params.limit)
+    .toArray();
+  return rooms as T[];
+}
+
+/**
+ * Cập nhật phòng. Khi truyền `expectedVersion` (version lúc đọc phòng), chỉ ghi
+ * nếu chưa ai cập nhật phòng trong lúc đó, ngược lại ném RoomConflictError.
+ */
 export async function updateRoom<T extends BaseGameRoom>(
   gameType: string,
   roomId: string,
-  updates: Partial<T>
+  updates: Partial<T>,
+  expectedVersion?: number
 ): Promise<T> {
-  const client = await clientPromise;
-  const db = client.db(DB_NAME);
-  const col = db.collection<T>(`${gameType}_rooms`);
+  const col = await getRoomsCollection<T>(gameType);
   const now = new Date();
 
-  await col.updateOne(
-    { roomId } as Filter<T>,
-    { $set: { ...updates, updatedAt: now } } as any
+  const filter =
+    expectedVersion === undefined
+      ? { roomId }
+      : versionFilter(roomId, expectedVersion);
+  const result = await col.updateOne(
+    filter as Filter<T>,
+    {
+      $set: { ...updates, updatedAt: now },
+      $inc: { version: 1 },
+    } as unknown as UpdateFilter<T>
   );
+  if (expectedVersion !== undefined && result.matchedCount === 0) {
+    const exists = await col.findOne({ roomId } as Filter<T>);
+    if (!exists) throw new Error("Room không tồn tại");
+    throw new RoomConflictError();
+  }
 
   const room = await col.findOne({ roomId } as Filter<T>);
   if (!room) {
@@ -167,3 +737,55 @@ export async function updateRoom<T extends BaseGameRoom>(
   return room as T;
 }
 
+
+// Phòng đã phân định và không ai động tới từ `before`, để job dọn dẹp lưu kết quả rồi xoá
+export async function listFinishedRooms<T extends BaseGameRoom>(
+  gameType: string,
+  params: { before: Date; limit: number }
+): Promise<T[]> {
+  const col = await getRoomsCollection<T>(gameType);
+  const rooms = await col
+    .find({ status: "finished", updatedAt: { $lt: params.before } } as Filter<T>)
+    .limit(params.limit)
+    .toArray();
+  return rooms as T[];
+}
+
+/**
+ * Xoá phòng nếu chưa ai cập nhật kể từ lúc đọc (đúng version), trả về document
+ * đã xoá; null nếu phòng vừa thay đổi hoặc đã bị xoá.
+ */
+export async function deleteRoom<T extends BaseGameRoom>(
+  gameType: string,
+  roomId: string,
+  expectedVersion: number
+): Promise<T | null> {
+  const col = await getRoomsCollection<T>(gameType);
+  const deleted = await col.findOneAndDelete(
+    versionFilter(roomId, expectedVersion) as Filter<T>
+  );
+  return deleted as T | null;
+}
+
+// Xoá phòng không còn người chơi nào, trả về số phòng đã xoá
+export async function removeEmptyRooms(gameType: string): Promise<number> {
+  const col = await getRoomsCollection(gameType);
+  const result = await col.deleteMany({
+    $or: [{ players: { $exists: false } }, { players: { $size: 0 } }],
+  });
+  return result.deletedCount;
+}
+
+// Phòng đang chờ / đang chơi mà không có cập nhật từ `before` thì coi như bị bỏ
+export async function markAbandonedRooms(gameType: string, before: Date): Promise<number> {
+  const col = await getRoomsCollection(gameType);
+  const result = await col.updateMany(
+    {
+      status: { $nin: ["finished", "abandoned"] },
+      updatedAt: { $lt: before },
+    },
+    // Không tăng version: client còn mở phòng vẫn ghi tiếp được và đưa phòng về active
+    { $set: { status: "abandoned" } }
+  );
+  return result.modifiedCount;
+}
@@ -0,0 +1,101 @@
+import { subscribeTopic } from "@/lib/mqtt-client";
+
+// Hỏi lại server định kỳ phòng khi lỡ tin MQTT; cũng là nhịp báo "còn đang chờ"
+const POLL_INTERVAL_MS = 5000;
+
+export type FoundMatch = { roomId: string; token?: string };
+
+type MatchResponse = {
+  status?: "waiting" | "matched";
+  ticketId?: string;
+  secret?: string;
+  roomId?: string;
+  token?: string;
+  error?: string;
+};
+
+async function postMatchmaking(body: Record<string, unknown>): Promise<MatchResponse> {
+  const res = await fetch("/api/matchmaking", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data: MatchResponse = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Không tìm được trận, thử lại sau");
+  return data;
+}
+
+/**
+ * Vào hàng đợi tìm trận và chờ tới khi được ghép. Server báo qua topic
+ * `matchmaking/{ticketId}/matched`, token phòng thì lấy qua API. Huỷ bằng `signal`
+ * (rời hàng đợi, promise reject với AbortError).
+ */
+export async function findMatch(params: {
+  gameType: string;
+  playerName: string;
+  avatar?: string;
+  timeControl?: string;
+  ratingBand?: number;
+  signal: AbortSignal;
+}): Promise<FoundMatch> {
+  const { signal, ...joinParams } = params;
+  const joined = await postMatchmaking({ action: "join", ...joinParams });
+  if (joined.status === "matched" && joined.roomId) {
+    return { roomId: joined.roomId, token: joined.token };
+  }
+
+  const { ticketId, secret } = joined;
+  if (!ticketId || !secret) throw new Error("Không tìm được trận, thử lại sau");
+  const ticket = { gameType: params.gameType, ticketId, secret };
+
+  return new Promise<FoundMatch>((resolve, reject) => {
+    let unsubscribe: (() => void) | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let done = false;
+    let checking = false;
+
+    const finish = () => {
+      done = true;
+      if (timer) clearInterval(timer);
+      unsubscribe?.();
+      signal.removeEventListener("abort", onAbort);
+    };
+
+    const check = async () => {
+      if (done || checking) return;
+      checking = true;
+      try {
+        const data = await postMatchmaking({ action: "status", ...ticket });
+        if (!done && data.status === "matched" && data.roomId) {
+          finish();
+          resolve({ roomId: data.roomId, token: data.token });
+        }
+      } catch (err) {
+        if (!done) {
+          finish();
+          reject(err);
+        }
+      } finally {
+        checking = false;
+      }
+    };
+
+    function onAbort() {
+      if (done) return;
+      finish();
+      postMatchmaking({ action: "cancel", ...ticket }).catch(() => {});
+      reject(new DOMException("Đã huỷ tìm trận", "AbortError"));
+    }
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener("abort", onAbort);
+
+    // Broker lỗi thì vẫn còn polling, không cần dừng tìm trận
+    unsubscribe = subscribeTopic(`matchmaking/${ticketId}/+`, () => void check());
+
+    timer = setInterval(() => void check(), POLL_INTERVAL_MS);
+  });
+}
@@ -0,0 +1,304 @@
+import clientPromise, { DB_NAME } from "@/lib/mongodb";
+import { createHash, randomBytes } from "crypto";
+import type { Filter } from "mongodb";
+import {
+  getRoom,
+  createRoom,
+  joinRoom,
+  issuePlayerToken,
+  normalize,
+  type BaseGameRoom,
+} from "@/lib/game-room";
+import type { GameEngine } from "@/lib/game-engine";
+import { DEFAULT_RATING, getPlayerRecord, isRatedGameType } from "@/lib/player-ratings";
+import { publishServerMessage } from "@/lib/mqtt-publisher";
+import { notifyLobby } from "@/lib/room-lobby";
+
+export type TicketStatus = "waiting" | "matching" | "matched";
+
+/**
+ * Một lượt xếp hàng tìm trận. Client giữ `ticketId` (công khai, dùng làm topic
+ * MQTT) và `secret` (chỉ lưu hash) để hỏi trạng thái / huỷ / nhận token phòng.
+ */
+export interface MatchTicket {
+  ticketId: string;
+  secretHash: string;
+  gameType: string;
+  // Hàng đợi tách theo thể thức (cờ vua: id time control); game không có thể thức thì null
+  timeControl: string | null;
+  playerName: string;
+  nameKey: string;
+  avatar?: string;
+  rating: number;
+  // Chênh lệch Elo tối đa chấp nhận được; null = gặp ai cũng được
+  ratingBand: number | null;
+  status: TicketStatus;
+  roomId?: string;
+  // Token phiên trong phòng vừa ghép, giữ tới khi client lấy về
+  token?: string;
+  createdAt: Date;
+  // Lần cuối client hỏi trạng thái; vé lâu không hỏi coi như đã rời hàng
+  lastSeenAt: Date;
+}
+
+export type MatchResult =
+  | { status: "waiting"; ticketId: string }
+  | { status: "matched"; ticketId: string; roomId: string; token?: string };
+
+const COLLECTION = "matchmaking_queue";
+const STALE_AFTER_MS = 30 * 1000;
+const RATING_BANDS = [100, 200, 400];
+
+/**
+ * Ném ra khi vé tìm trận không tồn tại hoặc secret không khớp. Route trả về 404.
+ */
+export class MatchTicketError extends Error {
+  constructor(message = "Không tìm thấy lượt tìm trận, hãy tìm lại") {
+    super(message);
+    this.name = "MatchTicketError";
+  }
+}
+
+const hashSecret = (secret: string) => createHash("sha256").update(secret).digest("hex");
+
+let indexesReady = false;
+
+async function getQueueCollection() {
+  const client = await clientPromise;
+  const col = client.db(DB_NAME).collection<MatchTicket>(COLLECTION);
+  if (!indexesReady) {
+    await col.createIndex({ ticketId: 1 }, { unique: true });
+    await col.createIndex({ gameType: 1, timeControl: 1, status: 1, createdAt: 1 });
+    // Vé bị bỏ quên (đóng tab, chưa lấy token) tự xoá sau 10 phút
+    await col.createIndex({ lastSeenAt: 1 }, { expireAfterSeconds: 600 });
+    indexesReady = true;
+  }
+  return col;
+}
+
+function parseRatingBand(value: unknown): number | null {
+  const band = Number(value);
+  return RATING_BANDS.includes(band) ? band : null;
+}
+
+// Mã phòng mới chưa ai dùng, tránh ghi đè phòng cũ cùng mã
+async function newRoomId(gameType: string) {
+  for (;;) {
+    const roomId = Math.random().toString(36).slice(2, 8).toUpperCase();
+    if (roomId.length === 6 && !(await getRoom(gameType, roomId))) return roomId;
+  }
+}
+
+function toResult(ticket: MatchTicket): MatchResult {
+  if (ticket.status === "matched" && ticket.roomId) {
+    return { status: "matched", ticketId: ticket.ticketId, roomId: ticket.roomId, token: ticket.token };
+  }
+  return { status: "waiting", ticketId: ticket.ticketId };
+}
+
+// Đối thủ phù hợp: cùng game + thể thức, còn online, và Elo nằm trong khoảng của cả hai bên
+function opponentFilter(ticket: MatchTicket, now: Date): Filter<MatchTicket> {
+  const filter: Filter<MatchTicket> = {
+    gameType: ticket.gameType,
+    timeControl: ticket.timeControl,
+    status: "waiting",
+    nameKey: { $ne: ticket.nameKey },
+    lastSeenAt: { $gte: new Date(now.getTime() - STALE_AFTER_MS) },
+    $expr: {
+      $or: [
+        { $eq: [{ $ifNull: ["$ratingBand", null] }, null] },
+        { $lte: [{ $abs: { $subtract: ["$rating", ticket.rating] } }, "$ratingBand"] },
+      ],
+    },
+  };
+  if (ticket.ratingBand !== null) {
+    filter.rating = {
+      $gte: ticket.rating - ticket.ratingBand,
+      $lte: ticket.rating + ticket.ratingBand,
+    };
+  }
+  return filter;
+}
+
+/**
+ * Thử ghép vé với người chờ lâu nhất. Cả hai vé được giữ (waiting -> matching)
+ * trước khi tạo phòng để hai request chạy song song không ghép trùng một người.
+ */
+async function tryMatch<R extends BaseGameRoom>(
+  engine: GameEngine<R>,
+  ticket: MatchTicket
+): Promise<MatchResult> {
+  const col = await getQueueCollection();
+  const now = new Date();
+
+  const mine = await col.findOneAndUpdate(
+    { ticketId: ticket.ticketId, status: "waiting" },
+    { $set: { status: "matching", lastSeenAt: now } },
+    { returnDocument: "after" }
+  );
+  // Vé đang được request khác ghép hoặc đã ghép xong
+  if (!mine) return toResult((await col.findOne({ ticketId: ticket.ticketId })) ?? ticket);
+
+  const opponent = await col.findOneAndUpdate(
+    opponentFilter(mine, now),
+    { $set: { status: "matching" } },
+    { sort: { createdAt: 1 }, returnDocument: "after" }
+  );
+  if (!opponent) {
+    await col.updateOne({ ticketId: mine.ticketId }, { $set: { status: "waiting" } });
+    return { status: "waiting", ticketId: mine.ticketId };
+  }
+
+  try {
+    // Người chờ lâu hơn tạo phòng (ngồi ghế đầu), người vừa tới vào sau
+    const roomId = await newRoomId(engine.gameType);
+    const initialRoomData = engine.initialState({
+      roundIndex: 0,
+      body: mine.timeControl ? { timeControl: mine.timeControl } : {},
+    });
+    const hostSession = issuePlayerToken();
+    const guestSession = issuePlayerToken();
+
+    const created = await createRoom<R>({
+      gameType: engine.gameType,
+      roomId,
+      playerName: opponent.playerName,
+      playerData: {
+        ...engine.assignSeat({ players: [], roundIndex: 0 }),
+        avatar: opponent.avatar,
+        tokenHash: hostSession.tokenHash,
+      },
+      maxPlayers: engine.maxPlayers,
+      initialRoomData,
+    });
+    const room = await joinRoom<R>({
+      gameType: engine.gameType,
+      roomId,
+      playerName: mine.playerName,
+      playerData: {
+        ...engine.assignSeat({ players: created.players, roundIndex: 0 }),
+        avatar: mine.avatar,
+        tokenHash: guestSession.tokenHash,
+      },
+    });
+
+    await Promise.all([
+      col.updateOne(
+        { ticketId: opponent.ticketId },
+        { $set: { status: "matched", roomId, token: hostSession.token } }
+      ),
+      col.updateOne(
+        { ticketId: mine.ticketId },
+        { $set: { status: "matched", roomId, token: guestSession.token } }
+      ),
+    ]);
+
+    await notifyLobby(engine, null, room);
+
+    // Báo cho cả hai client; token không đi qua broker công khai, client lấy qua API
+    await Promise.all(
+      [opponent, mine].map((t) =>
+        publishServerMessage(`matchmaking/${t.ticketId}/matched`, {
+          ticketId: t.ticketId,
+          gameType: engine.gameType,
+          roomId,
+        })
+      )
+    );
+
+    return { status: "matched", ticketId: mine.ticketId, roomId, token: guestSession.token };
+  } catch (err) {
+    // Tạo phòng lỗi thì trả cả hai về hàng chờ
+    await col.updateMany(
+      { ticketId: { $in: [mine.ticketId, opponent.ticketId] } },
+      { $set: { status: "waiting" } }
+    );
+    throw err;
+  }
+}
+
+/**
+ * Vào hàng đợi và ghép ngay nếu có người phù hợp. Trả về `secret` cho client
+ * để hỏi trạng thái / huỷ, kèm roomId + token nếu đã ghép được.
+ */
+export async function enqueueMatch<R extends BaseGameRoom>(
+  engine: GameEngine<R>,
+  params: { playerName: string; avatar?: string; timeControl?: unknown; ratingBand?: unknown }
+): Promise<MatchResult & { secret: string }> {
+  const { playerName, avatar } = params;
+  const { gameType } = engine;
+  const rated = isRatedGameType(gameType);
+  const record = rated ? await getPlayerRecord(playerName) : null;
+  const rating = (rated && record?.ratings?.[gameType]?.rating) || DEFAULT_RATING;
+
+  // Chuẩn hoá thể thức qua engine (time control sai thì về mặc định như khi tạo phòng)
+  const state = engine.initialState({
+    roundIndex: 0,
+    body: typeof params.timeControl === "string" ? { timeControl: params.timeControl } : {},
+  });
+  const timeControl = typeof state.timeControl === "string" ? state.timeControl : null;
+
+  const secret = randomBytes(24).toString("base64url");
+  const now = new Date();
+  const ticket: MatchTicket = {
+    ticketId: randomBytes(12).toString("base64url"),
+    secretHash: hashSecret(secret),
+    gameType,
+    timeControl,
+    playerName,
+    nameKey: normalize(playerName),
+    ...(avatar && { avatar }),
+    rating,
+    ratingBand: rated ? parseRatingBand(params.ratingBand) : null,
+    status: "waiting",
+    createdAt: now,
+    lastSeenAt: now,
+  };
+
+  const col = await getQueueCollection();
+  await col.insertOne({ ...ticket });
+  const result = await tryMatch(engine, ticket);
+  // Ghép được ngay thì token đã trả trong response, không cần giữ vé
+  if (result.status === "matched") await col.deleteOne({ ticketId: ticket.ticketId });
+  return { ...result, secret };
+}
+
+async function findTicket(ticketId: string, secret: string) {
+  const col = await getQueueCollection();
+  const ticket = await col.findOne({ ticketId, secretHash: hashSecret(secret) });
+  if (!ticket) throw new MatchTicketError();
+  return ticket;
+}
+
+/**
+ * Client hỏi định kỳ (dự phòng khi lỡ tin MQTT). Mỗi lần hỏi cũng là nhịp
+ * "còn online" và là cơ hội ghép lại với người vừa vào hàng.
+ */
+export async function getMatchStatus<R extends BaseGameRoom>(
+  engine: GameEngine<R>,
+  ticketId: string,
+  secret: string
+): Promise<MatchResult> {
+  const ticket = await findTicket(ticketId, secret);
+  const col = await getQueueCollection();
+
+  if (ticket.status === "matched") {
+    // Token chỉ trao một lần, vé xong việc thì xoá
+    await col.deleteOne({ ticketId });
+    return toResult(ticket);
+  }
+  if (ticket.status === "matching") return toResult(ticket);
+
+  await col.updateOne({ ticketId }, { $set: { lastSeenAt: new Date() } });
+  const result = await tryMatch(engine, ticket);
+  if (result.status === "matched") await col.deleteOne({ ticketId });
+  return result;
+}
+
+// Rời hàng đợi; vé đã ghép xong thì không huỷ được nữa
+export async function cancelMatch(ticketId: string, secret: string): Promise<boolean> {
+  const ticket = await findTicket(ticketId, secret);
+  const col = await getQueueCollection();
+  const result = await col.deleteOne({ ticketId: ticket.ticketId, status: "waiting" });
+  return result.deletedCount > 0;
+}
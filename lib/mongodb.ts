@@ -24,6 +24,9 @@ if (!global._mongoClientPromise) {
 
 clientPromise = global._mongoClientPromise;
 
+// Database chung cho phòng, kho ván, kết quả, Elo và hàng chờ tìm trận
+export const DB_NAME = "gamewithsangle";
+
 export default clientPromise;
 
 
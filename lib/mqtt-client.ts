@@ -146,3 +146,44 @@ export class MQTTClient {
   }
 }
 
+
+/**
+ * Nghe một topic ngoài phòng chơi (sảnh chờ, tìm trận), kết nối riêng và không
+ * publish gì. Trả về hàm huỷ đăng ký + ngắt kết nối.
+ */
+export function subscribeTopic(
+  topic: string,
+  onMessage: (message: MQTTMessage, topic: string) => void
+): () => void {
+  const client = mqtt.connect(MQTT_BROKER_URL, {
+    clientId: `gws-sub-${Math.random().toString(36).slice(2, 10)}`,
+    clean: true,
+    reconnectPeriod: 1000,
+    connectTimeout: 10000,
+  });
+
+  client.on("connect", () => {
+    client.subscribe(topic, { qos: 1 }, (err) => {
+      if (err) console.error("MQTT subscribe error:", err);
+    });
+  });
+
+  client.on("message", (messageTopic, message) => {
+    try {
+      const data = JSON.parse(message.toString()) as MQTTMessage;
+      const topicParts = messageTopic.split("/");
+      data.type = topicParts[topicParts.length - 1];
+      onMessage(data, messageTopic);
+    } catch (err) {
+      console.error("MQTT message parse error:", err);
+    }
+  });
+
+  client.on("error", (err) => {
+    console.error("MQTT error:", err);
+  });
+
+  return () => {
+    client.end();
+  };
+}
@@ -0,0 +1,71 @@
+import mqtt, { MqttClient } from "mqtt";
+
+// Publisher phía server (chạy trong route API), dùng chung broker với client
+const MQTT_BROKER_URL =
+  process.env.MQTT_BROKER_URL ||
+  process.env.NEXT_PUBLIC_MQTT_BROKER_URL ||
+  "wss://test.mosquitto.org:8081";
+
+declare global {
+  var _mqttPublisherPromise: Promise<MqttClient> | undefined;
+}
+
+function getPublisher(): Promise<MqttClient> {
+  if (!global._mqttPublisherPromise) {
+    global._mqttPublisherPromise = mqtt
+      .connectAsync(
+        MQTT_BROKER_URL,
+        {
+          clientId: `gws-server-${Math.random().toString(36).slice(2, 10)}`,
+          clean: true,
+          reconnectPeriod: 1000,
+          connectTimeout: 5000,
+        },
+        false
+      )
+      .catch((err) => {
+        // Kết nối lỗi thì lần publish sau thử lại từ đầu
+        global._mqttPublisherPromise = undefined;
+        throw err;
+      });
+  }
+  return global._mqttPublisherPromise;
+}
+
+// Request API chờ broker tối đa chừng này, quá thì trả lời luôn (tin vẫn gửi tiếp ở nền)
+const PUBLISH_TIMEOUT_MS = 1000;
+
+async function publish(topic: string, payload: Record<string, unknown>) {
+  try {
+    const client = await getPublisher();
+    // Broker đang mất kết nối: bỏ tin thay vì xếp hàng chờ, client tự hỏi lại qua API
+    if (!client.connected) {
+      console.warn(`MQTT server publish skipped (offline): ${topic}`);
+      return;
+    }
+    await client.publishAsync(
+      topic,
+      JSON.stringify({ ...payload, clientId: "server", timestamp: Date.now() }),
+      { qos: 1 }
+    );
+  } catch (err) {
+    console.error("MQTT server publish error:", err);
+  }
+}
+
+/**
+ * Gửi thông báo từ server. MQTT chỉ để báo tin nhanh, client luôn có đường
+ * hỏi lại qua API, nên lỗi broker chỉ được log chứ không làm hỏng request, và
+ * broker chậm / đang kết nối lại cũng không giữ request quá PUBLISH_TIMEOUT_MS.
+ */
+export async function publishServerMessage(topic: string, payload: Record<string, unknown>) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<void>((resolve) => {
+    timer = setTimeout(() => {
+      console.warn(`MQTT server publish timed out: ${topic}`);
+      resolve();
+    }, PUBLISH_TIMEOUT_MS);
+  });
+  await Promise.race([publish(topic, payload), timeout]);
+  clearTimeout(timer);
+}
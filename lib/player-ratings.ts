@@ -0,0 +1,203 @@
+import clientPromise, { DB_NAME } from "@/lib/mongodb";
+import { normalize } from "@/lib/game-room";
+import type { Filter, UpdateFilter } from "mongodb";
+
+export const RATED_GAME_TYPES = ["chess", "xo"] as const;
+export type RatedGameType = (typeof RATED_GAME_TYPES)[number];
+
+export const DEFAULT_RATING = 1200;
+
+export type GameRating = {
+  rating: number;
+  games: number;
+  wins: number;
+  losses: number;
+  draws: number;
+  updatedAt: Date;
+};
+
+export interface PlayerRecord {
+  // Tên đã chuẩn hoá (trim + lowercase), người chơi được nhận diện theo tên như trong phòng
+  nameKey: string;
+  name: string;
+  ratings: Partial<Record<RatedGameType, GameRating>>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const PLAYERS_COLLECTION = "players";
+
+let indexesReady = false;
+
+async function getPlayersCollection() {
+  const client = await clientPromise;
+  const col = client.db(DB_NAME).collection<PlayerRecord>(PLAYERS_COLLECTION);
+  if (!indexesReady) {
+    await col.createIndex({ nameKey: 1 }, { unique: true });
+    indexesReady = true;
+  }
+  return col;
+}
+
+export function isRatedGameType(value: unknown): value is RatedGameType {
+  return RATED_GAME_TYPES.includes(value as RatedGameType);
+}
+
+export function expectedScore(rating: number, opponentRating: number) {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+// Người mới lên xuống nhanh hơn cho tới khi đủ 30 ván
+function kFactor(games: number) {
+  return games < 30 ? 40 : 20;
+}
+
+function ratingOf(record: PlayerRecord | null, gameType: RatedGameType): GameRating {
+  return (
+    record?.ratings?.[gameType] ?? {
+      rating: DEFAULT_RATING,
+      games: 0,
+      wins: 0,
+      losses: 0,
+      draws: 0,
+      updatedAt: new Date(0),
+    }
+  );
+}
+
+// Số lần thử lại khi bản ghi Elo của người chơi bị ván khác cập nhật chen vào
+const MAX_RATING_RETRIES = 5;
+
+/**
+ * Ghi kết quả một ván vào Elo của một người, chỉ khi bản ghi vẫn là bản đã đọc
+ * (cùng số ván). Trả về false nếu có ván khác vừa ghi chen vào để đọc lại và tính lại.
+ */
+async function applyRating(params: {
+  gameType: RatedGameType;
+  name: string;
+  score: number;
+  mine: GameRating;
+  opponentRating: number;
+  now: Date;
+}) {
+  const { gameType, name, score, mine, opponentRating, now } = params;
+  const col = await getPlayersCollection();
+  const nameKey = normalize(name);
+  const delta = kFactor(mine.games) * (score - expectedScore(mine.rating, opponentRating));
+  const field = `ratings.${gameType}`;
+
+  try {
+    const result = await col.updateOne(
+      {
+        nameKey,
+        // Người chưa có Elo game này: chưa có field (hoặc chưa có bản ghi thì upsert)
+        [`${field}.games`]: mine.games === 0 ? { $exists: false } : mine.games,
+      } as Filter<PlayerRecord>,
+      {
+        $set: {
+          name,
+          [`${field}.rating`]: Math.round(mine.rating + delta),
+          [`${field}.updatedAt`]: now,
+          updatedAt: now,
+        },
+        $inc: {
+          [`${field}.games`]: 1,
+          [`${field}.wins`]: score === 1 ? 1 : 0,
+          [`${field}.losses`]: score === 0 ? 1 : 0,
+          [`${field}.draws`]: score === 0.5 ? 1 : 0,
+        },
+        $setOnInsert: { createdAt: now },
+      } as unknown as UpdateFilter<PlayerRecord>,
+      { upsert: true }
+    );
+    return result.matchedCount > 0 || result.upsertedCount > 0;
+  } catch (err) {
+    // Duplicate key: bản ghi đã có (và vừa có Elo) nên upsert không được chèn mới
+    if ((err as { code?: number }).code === 11000) return false;
+    throw err;
+  }
+}
+
+/**
+ * Cập nhật Elo của hai người sau một ván có kết quả. Việc đảm bảo mỗi ván chỉ
+ * được tính một lần do `recordGameResult` lo. Điểm đối thủ lấy theo lần đọc đầu
+ * (trước ván này); bản ghi của từng người được ghi có điều kiện và đọc lại khi
+ * hai ván kết thúc cùng lúc, để không ván nào bị mất.
+ */
+export async function updateRatings(
+  gameType: RatedGameType,
+  players: { name: string; score: number }[]
+) {
+  if (players.length !== 2) return;
+
+  const col = await getPlayersCollection();
+  const now = new Date();
+  const records = await Promise.all(
+    players.map((p) => col.findOne({ nameKey: normalize(p.name) }))
+  );
+  const before = records.map((record) => ratingOf(record, gameType));
+
+  await Promise.all(
+    players.map(async (p, index) => {
+      let mine = before[index];
+      for (let attempt = 0; attempt < MAX_RATING_RETRIES; attempt++) {
+        const applied = await applyRating({
+          gameType,
+          name: p.name,
+          score: p.score,
+          mine,
+          opponentRating: before[1 - index].rating,
+          now,
+        });
+        if (applied) return;
+        mine = ratingOf(await col.findOne({ nameKey: normalize(p.name) }), gameType);
+      }
+      throw new Error(`Không cập nhật được Elo của ${p.name}, hãy thử lại`);
+    })
+  );
+}
+
+export async function getPlayerRecord(name: string): Promise<PlayerRecord | null> {
+  const col = await getPlayersCollection();
+  return col.findOne({ nameKey: normalize(name) }, { projection: { _id: 0 } });
+}
+
+export type LeaderboardEntry = { rank: number; name: string } & Omit<GameRating, "updatedAt">;
+
+export async function getLeaderboard(params: {
+  gameType: RatedGameType;
+  page?: number;
+  limit?: number;
+}): Promise<{ total: number; players: LeaderboardEntry[] }> {
+  const { gameType } = params;
+  const limit = Math.min(Math.max(params.limit ?? 20, 1), 100);
+  const page = Math.max(params.page ?? 1, 1);
+  const filter = { [`ratings.${gameType}`]: { $exists: true } };
+
+  const col = await getPlayersCollection();
+  const [total, records] = await Promise.all([
+    col.countDocuments(filter),
+    col
+      .find(filter)
+      .sort({ [`ratings.${gameType}.rating`]: -1, nameKey: 1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .toArray(),
+  ]);
+
+  return {
+    total,
+    players: records.map((record, index) => {
+      const { rating, games, wins, losses, draws } = ratingOf(record, gameType);
+      return {
+        rank: (page - 1) * limit + index + 1,
+        name: record.name,
+        rating,
+        games,
+        wins,
+        losses,
+        draws,
+      };
+    }),
+  };
+}
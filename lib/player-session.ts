@@ -0,0 +1,38 @@
+// Token phiên của người chơi theo từng phòng, lưu localStorage cạnh gws_player_name
+const STORAGE_KEY = "gws_player_tokens";
+
+function readTokens(): Record<string, string> {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadPlayerToken(gameType: string, roomId: string): string | undefined {
+  return readTokens()[`${gameType}:${roomId.toUpperCase()}`];
+}
+
+export function savePlayerToken(gameType: string, roomId: string, token: string) {
+  if (typeof window === "undefined") return;
+  const tokens = readTokens();
+  tokens[`${gameType}:${roomId.toUpperCase()}`] = token;
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+}
+
+// Rời phòng / bị mời ra thì bỏ token, token cũ không còn dùng được nữa
+export function clearPlayerToken(gameType: string, roomId: string) {
+  if (typeof window === "undefined") return;
+  const tokens = readTokens();
+  delete tokens[`${gameType}:${roomId.toUpperCase()}`];
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(tokens));
+}
+
+// Header cho GET phòng: phòng có mật khẩu chỉ trả về cho người có ghế (token) hoặc chữ ký mời
+export function roomReadHeaders(gameType: string, roomId: string, invite?: string): HeadersInit {
+  const token = loadPlayerToken(gameType, roomId);
+  if (token) return { "x-player-token": token };
+  return invite ? { "x-room-invite": invite } : {};
+}
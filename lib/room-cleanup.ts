@@ -0,0 +1,65 @@
+import {
+  deleteRoom,
+  listFinishedRooms,
+  markAbandonedRooms,
+  removeEmptyRooms,
+  type BaseGameRoom,
+  type Player,
+} from "@/lib/game-room";
+import type { AnyGameEngine, GameEngine } from "@/lib/game-engine";
+
+// Phòng đang chơi mà không ai đi nước nào trong ROOM_ABANDON_MINUTES phút bị coi là bỏ
+const ABANDON_AFTER_MS = (Number(process.env.ROOM_ABANDON_MINUTES) || 30) * 60 * 1000;
+// Ván đã phân định được để nguyên một lúc cho người chơi xem lại / bấm chơi tiếp
+const FINISHED_GRACE_MS = 10 * 60 * 1000;
+const FINISHED_BATCH = 50;
+
+export type CleanupReport = {
+  gameType: string;
+  // Ván đã kết thúc được lưu kết quả (kho ván, lịch sử, Elo) rồi xoá phòng
+  archived: number;
+  // Phòng không còn người chơi bị xoá
+  removed: number;
+  // Phòng lâu không hoạt động chuyển sang abandoned
+  abandoned: number;
+};
+
+/**
+ * Lưu kết quả ván đã phân định qua `nextRound` (giống người chơi bấm kết thúc).
+ * Phòng được xoá trước (có kiểm tra version) nên người chơi bấm kết thúc cùng
+ * lúc không làm ván bị lưu hai lần.
+ */
+async function archiveFinishedRooms<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  before: Date
+) {
+  const rooms = await listFinishedRooms<R>(engine.gameType, { before, limit: FINISHED_BATCH });
+  let archived = 0;
+  for (const room of rooms) {
+    const deleted = await deleteRoom<R>(engine.gameType, room.roomId, room.version);
+    const player = deleted?.players?.[0] as P | undefined;
+    if (!deleted || !player) continue;
+    try {
+      await engine.nextRound({ room: deleted, player });
+      archived += 1;
+    } catch (err) {
+      console.error(`Không lưu được ván ${engine.gameType}/${room.roomId}:`, err);
+    }
+  }
+  return archived;
+}
+
+export async function cleanupRooms(
+  engines: AnyGameEngine[]
+): Promise<CleanupReport[]> {
+  const now = Date.now();
+  const reports: CleanupReport[] = [];
+  // Chạy lần lượt từng game, job chạy nền nên không cần song song
+  for (const engine of engines) {
+    const archived = await archiveFinishedRooms(engine, new Date(now - FINISHED_GRACE_MS));
+    const removed = await removeEmptyRooms(engine.gameType);
+    const abandoned = await markAbandonedRooms(engine.gameType, new Date(now - ABANDON_AFTER_MS));
+    reports.push({ gameType: engine.gameType, archived, removed, abandoned });
+  }
+  return reports;
+}
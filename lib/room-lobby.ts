@@ -0,0 +1,98 @@
+import {
+  listActiveRooms,
+  toPublicRoom,
+  type BaseGameRoom,
+  type Player,
+  type RoomStatus,
+} from "@/lib/game-room";
+import { roomStatus, type AnyGameEngine, type GameEngine } from "@/lib/game-engine";
+import { publishServerMessage } from "@/lib/mqtt-publisher";
+
+// Thông tin công khai của một phòng để hiển thị ở sảnh chờ
+export type RoomSummary = {
+  roomId: string;
+  gameType: string;
+  status: RoomStatus;
+  players: Player[];
+  maxPlayers: number;
+  spectators: number;
+  updatedAt: string | null;
+};
+
+// Sảnh chờ chỉ lấy các phòng còn "online": có người chơi và được cập nhật trong vòng 5 phút
+const ACTIVE_WINDOW_MS = 5 * 60 * 1000;
+const MAX_SCAN = 200;
+
+export function lobbyTopic(gameType: string) {
+  return `lobby/${gameType}/room`;
+}
+
+export function summarizeRoom<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  room: R
+): RoomSummary {
+  const updatedAt = room.updatedAt ? new Date(room.updatedAt) : null;
+  return {
+    roomId: room.roomId,
+    gameType: engine.gameType,
+    // Phòng cũ chưa lưu status thì tính từ bàn chơi
+    status: room.status ?? roomStatus(engine, room),
+    players: toPublicRoom(room)!.players,
+    maxPlayers: typeof room.maxPlayers === "number" ? room.maxPlayers : engine.maxPlayers,
+    spectators: (room.spectators ?? []).length,
+    updatedAt: updatedAt ? updatedAt.toISOString() : null,
+  };
+}
+
+/**
+ * Phòng của các game, lọc theo trạng thái. Phòng đang chờ / đang chơi (và khi
+ * không chọn trạng thái) chỉ lấy phòng hoạt động trong 5 phút gần đây để sảnh
+ * không hiện phòng chủ đã bỏ đi; finished / abandoned thì không giới hạn thời
+ * gian, vì phòng chỉ bị đánh dấu abandoned sau ROOM_ABANDON_MINUTES phút không
+ * ai động tới. Không chọn trạng thái thì bỏ qua phòng abandoned. Phòng cũ chưa
+ * lưu status phải tính theo luật từng game nên vẫn lọc lại sau khi đọc.
+ */
+export async function listRooms(params: {
+  engines: AnyGameEngine[];
+  status?: RoomStatus;
+  limit?: number;
+}): Promise<RoomSummary[]> {
+  const { engines, status } = params;
+  const limit = Math.min(Math.max(params.limit ?? 50, 1), 100);
+  const live = !status || status === "waiting" || status === "active";
+  const since = live ? new Date(Date.now() - ACTIVE_WINDOW_MS) : undefined;
+
+  const perGame = await Promise.all(
+    engines.map(async (engine) => {
+      const rooms = await listActiveRooms(engine.gameType, { since, status, limit: MAX_SCAN });
+      return rooms.map((room) => summarizeRoom(engine, room));
+    })
+  );
+
+  return perGame
+    .flat()
+    .filter((room) => (status ? room.status === status : room.status !== "abandoned"))
+    .sort((a, b) => (b.updatedAt ?? "").localeCompare(a.updatedAt ?? ""))
+    .slice(0, limit);
+}
+
+/**
+ * Báo sảnh chờ khi phòng đổi trạng thái hoặc đổi người chơi (không báo theo
+ * từng nước đi), để trang sảnh cập nhật ngay mà không cần poll.
+ */
+export async function notifyLobby<R extends BaseGameRoom, P extends Player>(
+  engine: GameEngine<R, P>,
+  before: R | null,
+  after: R
+) {
+  // Phòng unlisted / có mật khẩu không lên sảnh chờ
+  if (after.visibility === "unlisted" || after.visibility === "password") return;
+  const next = summarizeRoom(engine, after);
+  if (before) {
+    const prev = summarizeRoom(engine, before);
+    const samePlayers =
+      prev.players.map((p) => p.name).join("\n") === next.players.map((p) => p.name).join("\n");
+    if (prev.status === next.status && samePlayers) return;
+  }
+  await publishServerMessage(lobbyTopic(engine.gameType), { room: next });
+}
@@ -0,0 +1,195 @@
+import type { BotLevel } from "@/lib/game-room";
+import {
+  DIRECTIONS,
+  checkWinner,
+  otherSymbol,
+  type XOBoard,
+  type XOCell,
+  type XORules,
+  type XOSymbol,
+} from "@/lib/xo-rules";
+
+const WIN_SCORE = 1_000_000;
+// Còn ít ô trống thì tìm hết cây (đánh hoàn hảo), nhiều hơn thì giới hạn độ sâu và số nhánh
+const FULL_SEARCH_EMPTY_CELLS = 9;
+const SEARCH_DEPTH = 3;
+const SEARCH_WIDTH = 8;
+// Chỉ xét các ô trống cách quân đã đánh tối đa 2 ô
+const NEIGHBOR_RADIUS = 2;
+
+function emptyCells(board: XOBoard): XOCell[] {
+  const cells: XOCell[] = [];
+  board.forEach((rowCells, row) =>
+    rowCells.forEach((cell, col) => {
+      if (cell === null) cells.push({ row, col });
+    })
+  );
+  return cells;
+}
+
+function candidateCells(board: XOBoard): XOCell[] {
+  const size = board.length;
+  const empty = emptyCells(board);
+  if (empty.length === size * size) {
+    // Bàn trống: đánh giữa bàn
+    const center = Math.floor(size / 2);
+    return [{ row: center, col: center }];
+  }
+
+  return empty.filter(({ row, col }) => {
+    for (let dr = -NEIGHBOR_RADIUS; dr <= NEIGHBOR_RADIUS; dr += 1) {
+      for (let dc = -NEIGHBOR_RADIUS; dc <= NEIGHBOR_RADIUS; dc += 1) {
+        const cell = board[row + dr]?.[col + dc];
+        if (cell !== null && cell !== undefined) return true;
+      }
+    }
+    return false;
+  });
+}
+
+// Điểm của các chuỗi đi qua ô (row, col) nếu `symbol` đánh vào đó: chuỗi càng dài, càng ít bị chặn càng cao
+function lineScore(
+  board: XOBoard,
+  row: number,
+  col: number,
+  symbol: XOSymbol,
+  { winLength, blockedEnds }: XORules
+) {
+  let score = 0;
+  for (const [dr, dc] of DIRECTIONS) {
+    let length = 1;
+    let openEnds = 0;
+    let blockedByOpponent = 0;
+    for (const sign of [1, -1]) {
+      let r = row + dr * sign;
+      let c = col + dc * sign;
+      while (board[r]?.[c] === symbol) {
+        length += 1;
+        r += dr * sign;
+        c += dc * sign;
+      }
+      const end = board[r]?.[c];
+      if (end === null) openEnds += 1;
+      else if (end === otherSymbol(symbol)) blockedByOpponent += 1;
+    }
+
+    if (length >= winLength && !(blockedEnds && blockedByOpponent === 2)) return WIN_SCORE;
+    if (openEnds === 0) continue;
+    score += 10 ** length * openEnds;
+  }
+  return score;
+}
+
+// Vừa tấn công vừa phòng thủ: ô đối thủ cần đánh cũng là ô tốt để chặn
+function cellScore(board: XOBoard, cell: XOCell, symbol: XOSymbol, rules: XORules) {
+  return (
+    lineScore(board, cell.row, cell.col, symbol, rules) +
+    lineScore(board, cell.row, cell.col, otherSymbol(symbol), rules) * 0.9
+  );
+}
+
+function orderedMoves(board: XOBoard, symbol: XOSymbol, rules: XORules) {
+  return candidateCells(board)
+    .map((cell) => ({ cell, score: cellScore(board, cell, symbol, rules) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Đánh giá thế cờ khi hết độ sâu, theo góc nhìn của bên sắp đánh
+function evaluate(board: XOBoard, symbol: XOSymbol, rules: XORules) {
+  let mine = 0;
+  let theirs = 0;
+  for (const { row, col } of candidateCells(board)) {
+    mine = Math.max(mine, lineScore(board, row, col, symbol, rules));
+    theirs = Math.max(theirs, lineScore(board, row, col, otherSymbol(symbol), rules));
+  }
+  if (mine >= WIN_SCORE) return WIN_SCORE / 2;
+  return mine - theirs;
+}
+
+// Negamax cắt tỉa alpha-beta; thắng càng sớm (còn nhiều `depth`) điểm càng cao
+function negamax(
+  board: XOBoard,
+  symbol: XOSymbol,
+  depth: number,
+  alpha: number,
+  beta: number,
+  rules: XORules,
+  width: number
+): number {
+  if (depth === 0) return evaluate(board, symbol, rules);
+
+  const moves = orderedMoves(board, symbol, rules).slice(0, width);
+  if (moves.length === 0) return 0;
+
+  let best = -Infinity;
+  for (const { cell } of moves) {
+    board[cell.row][cell.col] = symbol;
+    const { winner } = checkWinner(board, cell.row, cell.col, rules);
+    const score =
+      winner === symbol
+        ? WIN_SCORE + depth
+        : winner === "draw"
+        ? 0
+        : -negamax(board, otherSymbol(symbol), depth - 1, -beta, -alpha, rules, width);
+    board[cell.row][cell.col] = null;
+
+    best = Math.max(best, score);
+    alpha = Math.max(alpha, score);
+    if (alpha >= beta) break;
+  }
+  return best;
+}
+
+function pickRandom<T>(items: T[]): T | null {
+  return items.length > 0 ? items[Math.floor(Math.random() * items.length)] : null;
+}
+
+/**
+ * Chọn nước đi cho máy cầm `symbol`:
+ * - easy: đánh ngẫu nhiên một ô trống
+ * - medium: chấm điểm từng ô (thắng ngay, chặn, kéo dài chuỗi), không tính trước
+ * - hard: minimax alpha-beta; bàn nhỏ tìm hết cây nên không thể thua,
+ *   bàn lớn giới hạn độ sâu và chỉ xét các nhánh tốt nhất
+ */
+export function chooseXOBotMove(
+  board: XOBoard,
+  symbol: XOSymbol,
+  rules: XORules,
+  level: BotLevel
+): XOCell | null {
+  if (level === "easy") return pickRandom(emptyCells(board));
+
+  const moves = orderedMoves(board, symbol, rules);
+  if (moves.length === 0) return null;
+
+  if (level === "medium") {
+    const top = moves[0].score;
+    return pickRandom(moves.filter((m) => m.score === top))?.cell ?? null;
+  }
+
+  const work = board.map((r) => [...r]);
+  const emptyCount = emptyCells(board).length;
+  const fullSearch = emptyCount <= FULL_SEARCH_EMPTY_CELLS;
+  const depth = fullSearch ? emptyCount : SEARCH_DEPTH;
+  const width = fullSearch ? emptyCount : SEARCH_WIDTH;
+
+  let best = moves[0].cell;
+  let bestScore = -Infinity;
+  for (const { cell } of moves.slice(0, width)) {
+    work[cell.row][cell.col] = symbol;
+    const { winner } = checkWinner(work, cell.row, cell.col, rules);
+    const score =
+      winner === symbol
+        ? WIN_SCORE + depth
+        : winner === "draw"
+        ? 0
+        : -negamax(work, otherSymbol(symbol), depth - 1, -Infinity, -bestScore, rules, width);
+    work[cell.row][cell.col] = null;
+
+    if (score > bestScore) {
+      bestScore = score;
+      best = cell;
+    }
+  }
+  return best;
+}
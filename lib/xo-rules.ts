@@ -0,0 +1,71 @@
+export type XOSymbol = "X" | "O";
+
+export type XOCell = { row: number; col: number };
+
+export type XOBoard = (string | null)[][];
+
+export type XORules = { winLength: number; blockedEnds: boolean };
+
+export type XOOutcome = { winner: XOSymbol | "draw" | null; line?: XOCell[] };
+
+export const MIN_BOARD_SIZE = 3;
+export const MAX_BOARD_SIZE = 19;
+export const WIN_LENGTHS = [3, 5] as const;
+
+export const DIRECTIONS = [
+  [0, 1], // ngang
+  [1, 0], // dọc
+  [1, 1], // chéo chính
+  [1, -1], // chéo phụ
+] as const;
+
+export function emptyBoard(size: number): XOBoard {
+  return Array.from({ length: size }, () => Array.from({ length: size }, () => null));
+}
+
+export function otherSymbol(symbol: XOSymbol): XOSymbol {
+  return symbol === "X" ? "O" : "X";
+}
+
+/**
+ * Kiểm tra thắng thua sau nước vừa đánh tại (row, col): chỉ các đường đi qua ô đó
+ * mới có thể vừa tạo thành chuỗi thắng. Với luật chặn hai đầu, chuỗi mà hai ô
+ * ngay sau hai đầu đều là quân đối thủ thì không được tính (mép bàn không tính là chặn).
+ * Thắng thì trả kèm toàn bộ các ô của chuỗi thắng.
+ */
+export function checkWinner(
+  board: XOBoard,
+  row: number,
+  col: number,
+  { winLength, blockedEnds }: XORules
+): XOOutcome {
+  const symbol = board[row]?.[col] as XOSymbol | null;
+  if (symbol) {
+    for (const [dr, dc] of DIRECTIONS) {
+      const line: XOCell[] = [{ row, col }];
+      const ends: (string | null | undefined)[] = [];
+      for (const sign of [1, -1]) {
+        let r = row + dr * sign;
+        let c = col + dc * sign;
+        while (board[r]?.[c] === symbol) {
+          line.push({ row: r, col: c });
+          r += dr * sign;
+          c += dc * sign;
+        }
+        ends.push(board[r]?.[c]);
+      }
+
+      const isBlocked = blockedEnds && ends.every((cell) => cell === otherSymbol(symbol));
+      if (line.length >= winLength && !isBlocked) {
+        line.sort((a, b) => a.row - b.row || a.col - b.col);
+        return { winner: symbol, line };
+      }
+    }
+  }
+
+  // Check for draw
+  const isFull = board.every((r) => r.every((cell) => cell !== null));
+  if (isFull) return { winner: "draw" };
+
+  return { winner: null };
+}